@@ -1,6 +1,6 @@
 import { Resolver, Query, Mutation, Args } from '@nestjs/graphql';
 import { PostVoter } from './post.voter';
-import { PostAuthVoter, PreAuthVoter, PreAuthVoterMethod } from '../src';
+import { PostAuthFilter, PostAuthVoter, PreAuthVoter, PreAuthVoterMethod } from '../src';
 
 @Resolver('Post')
 export class PostResolver {
@@ -8,7 +8,7 @@ export class PostResolver {
 
   @Query()
   @PreAuthVoterMethod(PostVoter, 'canGetPosts')
-  @PostAuthVoter(PostVoter)
+  @PostAuthFilter(PostVoter)
   async posts(
     @Args('pageIndex') pageIndex: number,
     @Args('pageSize') pageSize: number,
@@ -1,6 +1,6 @@
 import { Resolver, Query, Mutation, Args } from '@nestjs/graphql';
 import { UserVoter } from './user.voter';
-import { PostAuthVoter, PreAuthVoter, PreAuthVoterMethod } from '../src';
+import { PostAuthVoter, PreAuthVoterMethod, RequireRoles } from '../src';
 
 @Resolver('User')
 export class UserResolver {
@@ -50,10 +50,9 @@ export class UserResolver {
     };
   }
 
+  // Requires VoterModule.forRoot({ roleExtractor: (auth) => [auth.user.role] })
   @Mutation()
-  @PreAuthVoter((context) => {
-    return context.auth.user.role === 'admin';
-  })
+  @RequireRoles('admin')
   async deleteUser(@Args('id') id: string) {
     return { success: true };
   }
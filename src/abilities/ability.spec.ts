@@ -0,0 +1,56 @@
+import { AbilityBuilder } from './ability';
+
+describe('Ability', () => {
+  const build = (define: (builder: AbilityBuilder) => void) => {
+    const builder = new AbilityBuilder();
+    define(builder);
+    return builder.build();
+  };
+
+  it('should match actions and subjects', () => {
+    const ability = build(({ can }) => {
+      can(['read', 'create'], 'Post');
+      can('manage', 'Comment');
+      can('read', 'all');
+    });
+
+    expect(ability.can('create', 'Post')).toBe(true);
+    expect(ability.can('delete', 'Post')).toBe(false);
+    expect(ability.can('delete', 'Comment')).toBe(true);
+    expect(ability.can('read', 'User')).toBe(true);
+  });
+
+  it('should match conditions on nested fields', () => {
+    const ability = build(({ can }) => can('update', 'Post', { 'author.id': 'u1', meta: { locked: false } }));
+
+    expect(ability.can('update', 'Post', { author: { id: 'u1' }, meta: { locked: false } })).toBe(true);
+    expect(ability.can('update', 'Post', { author: { id: 'u2' }, meta: { locked: false } })).toBe(false);
+    expect(ability.can('update', 'Post', { author: { id: 'u1' }, meta: { locked: true } })).toBe(false);
+  });
+
+  it('should support the $in, $eq and $ne operators', () => {
+    const ability = build(({ can }) =>
+      can('read', 'Post', {
+        status: { $in: ['published', 'archived'] },
+        authorId: { $ne: 'banned' },
+        lang: { $eq: 'en' },
+      }),
+    );
+
+    expect(ability.can('read', 'Post', { status: 'archived', authorId: 'u1', lang: 'en' })).toBe(true);
+    expect(ability.can('read', 'Post', { status: 'draft', authorId: 'u1', lang: 'en' })).toBe(false);
+    expect(ability.can('read', 'Post', { status: 'published', authorId: 'banned', lang: 'en' })).toBe(false);
+    expect(ability.can('read', 'Post', { status: 'published', authorId: 'u1', lang: 'de' })).toBe(false);
+  });
+
+  it('should let later inverted rules win', () => {
+    const ability = build(({ can, cannot }) => {
+      can('manage', 'Post');
+      cannot('delete', 'Post', { published: true });
+    });
+
+    expect(ability.can('delete', 'Post', { published: true })).toBe(false);
+    expect(ability.can('delete', 'Post', { published: false })).toBe(true);
+    expect(ability.can('delete', 'Post')).toBe(true);
+  });
+});
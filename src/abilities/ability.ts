@@ -0,0 +1,104 @@
+import { AbilityConditions, AbilityRule } from '../models/ability.interface';
+
+const OPERATORS = ['$eq', '$ne', '$in'];
+
+export class Ability {
+  constructor(readonly rules: AbilityRule[] = []) {}
+
+  can(action: string, subject: string, object?: unknown): boolean {
+    for (let index = this.rules.length - 1; index >= 0; index--) {
+      const rule = this.rules[index];
+
+      if (!this.isRelevant(rule, action, subject)) {
+        continue;
+      }
+
+      if (object === undefined || object === null) {
+        if (rule.inverted && rule.conditions) {
+          continue;
+        }
+
+        return !rule.inverted;
+      }
+
+      if (!rule.conditions || matchesConditions(object, rule.conditions)) {
+        return !rule.inverted;
+      }
+    }
+
+    return false;
+  }
+
+  cannot(action: string, subject: string, object?: unknown): boolean {
+    return !this.can(action, subject, object);
+  }
+
+  private isRelevant(rule: AbilityRule, action: string, subject: string): boolean {
+    const actions = Array.isArray(rule.action) ? rule.action : [rule.action];
+    const subjects = Array.isArray(rule.subject) ? rule.subject : [rule.subject];
+
+    return (
+      (actions.includes(action) || actions.includes('manage')) &&
+      (subjects.includes(subject) || subjects.includes('all'))
+    );
+  }
+}
+
+export class AbilityBuilder {
+  private readonly rules: AbilityRule[] = [];
+
+  can = (action: string | string[], subject: string | string[], conditions?: AbilityConditions): this => {
+    this.rules.push({ action, subject, conditions });
+    return this;
+  };
+
+  cannot = (action: string | string[], subject: string | string[], conditions?: AbilityConditions): this => {
+    this.rules.push({ action, subject, conditions, inverted: true });
+    return this;
+  };
+
+  build = (): Ability => new Ability([...this.rules]);
+}
+
+export function matchesConditions(object: unknown, conditions: AbilityConditions): boolean {
+  return Object.entries(conditions).every(([path, condition]) => matchesValue(getPath(object, path), condition));
+}
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (isPlainObject(condition)) {
+    const keys = Object.keys(condition);
+
+    if (keys.length > 0 && keys.every((key) => OPERATORS.includes(key))) {
+      return keys.every((operator) => matchesOperator(value, operator, condition[operator]));
+    }
+
+    return isPlainObject(value) && matchesConditions(value, condition);
+  }
+
+  return equals(value, condition);
+}
+
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case '$eq':
+      return equals(value, operand);
+    case '$ne':
+      return !equals(value, operand);
+    default:
+      return Array.isArray(operand) && operand.some((item) => equals(value, item));
+  }
+}
+
+function equals(value: unknown, expected: unknown): boolean {
+  return Array.isArray(value) && !Array.isArray(expected) ? value.includes(expected) : value === expected;
+}
+
+function getPath(object: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), object);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,15 @@
+import { CollectionAdapter } from '../models/collection-adapter.interface';
+
+export class ArrayCollectionAdapter<TItem = any> implements CollectionAdapter<TItem[], TItem> {
+  supports(data: unknown): boolean {
+    return Array.isArray(data);
+  }
+
+  getItems(data: TItem[]): TItem[] {
+    return data;
+  }
+
+  setItems(data: TItem[], items: TItem[]): TItem[] {
+    return items;
+  }
+}
@@ -0,0 +1,37 @@
+import { CollectionAdapter } from '../models/collection-adapter.interface';
+
+export interface PaginationCollectionAdapterOptions {
+  itemsKey?: string;
+  totalKey?: string;
+  adjustTotal?: boolean;
+}
+
+export class PaginationCollectionAdapter implements CollectionAdapter<Record<string, any>> {
+  private readonly itemsKey: string;
+  private readonly totalKey: string;
+  private readonly adjustTotal: boolean;
+
+  constructor(options: PaginationCollectionAdapterOptions = {}) {
+    this.itemsKey = options.itemsKey ?? 'records';
+    this.totalKey = options.totalKey ?? 'total';
+    this.adjustTotal = options.adjustTotal ?? false;
+  }
+
+  supports(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && Array.isArray((data as Record<string, any>)[this.itemsKey]);
+  }
+
+  getItems(data: Record<string, any>): any[] {
+    return data[this.itemsKey];
+  }
+
+  setItems(data: Record<string, any>, items: any[], removed: number): Record<string, any> {
+    const result = { ...data, [this.itemsKey]: items };
+
+    if (this.adjustTotal && typeof data[this.totalKey] === 'number') {
+      result[this.totalKey] = data[this.totalKey] - removed;
+    }
+
+    return result;
+  }
+}
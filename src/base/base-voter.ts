@@ -1,10 +1,11 @@
 import { IVoter } from '../models/voter.interface';
 import { VoterContext } from '../models/voter-context.interface';
+import { VoteValue } from '../models/vote-result.enum';
 
 export abstract class BaseVoter<TData = any> implements IVoter<TData> {
   supports(data: TData): boolean {
     return true;
   }
 
-  abstract vote(context: VoterContext<any, TData, any>): Promise<boolean>
+  abstract vote(context: VoterContext<any, TData, any>): Promise<VoteValue>
 }
@@ -1,2 +1,12 @@
 export const PRE_AUTH_VOTER_METADATA = Symbol('PRE_AUTH_VOTER_METADATA');
 export const POST_AUTH_VOTER_METADATA = Symbol('POST_AUTH_VOTER_METADATA');
+export const POST_AUTH_FILTER_METADATA = Symbol('POST_AUTH_FILTER_METADATA');
+export const FIELD_VOTER_METADATA = Symbol('FIELD_VOTER_METADATA');
+export const VOTER_OPTIONS_METADATA = Symbol('VOTER_OPTIONS_METADATA');
+export const VOTER_MODULE_OPTIONS = Symbol('VOTER_MODULE_OPTIONS');
+export const CACHEABLE_VOTER_METADATA = Symbol('CACHEABLE_VOTER_METADATA');
+export const VOTER_CACHE_STORE = Symbol('VOTER_CACHE_STORE');
+export const SKIP_VOTERS_METADATA = Symbol('SKIP_VOTERS_METADATA');
+export const LOAD_RESOURCE_METADATA = Symbol('LOAD_RESOURCE_METADATA');
+export const RESOLVED_ARGS_METADATA = Symbol('RESOLVED_ARGS_METADATA');
+export const VOTER_ARG_METADATA = Symbol('VOTER_ARG_METADATA');
@@ -0,0 +1,16 @@
+import { CACHEABLE_VOTER_METADATA } from '../constants/voter.constants';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoterPrincipalKey } from '../models/voter-options.interface';
+
+export interface CacheableVoterOptions {
+  key?: (context: VoterContext<any, any, any>) => unknown;
+  principalKey?: VoterPrincipalKey;
+  ttl?: number;
+  tags?: string[] | ((context: VoterContext<any, any, any>) => string[]);
+}
+
+export function CacheableVoter(options: CacheableVoterOptions = {}): ClassDecorator & MethodDecorator {
+  return (target: object, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) => {
+    Reflect.defineMetadata(CACHEABLE_VOTER_METADATA, options, descriptor ? descriptor.value : target);
+  };
+}
@@ -0,0 +1,32 @@
+import { PreAuthVoter } from './pre-auth-voter.decorator';
+import { PostAuthVoter } from './post-auth-voter.decorator';
+import { AbilityVoter } from '../voters/ability.voter';
+import { AbilitySource } from '../models/ability.interface';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+
+export interface CheckAbilityOptions {
+  phase?: AuthorizationPhase;
+  source?: AbilitySource;
+}
+
+export function CheckAbility(
+  action: string,
+  subject: string,
+  options: CheckAbilityOptions = {},
+): ClassDecorator & MethodDecorator {
+  const phase = options.phase ?? AuthorizationPhase.PRE;
+
+  if (phase === AuthorizationPhase.PRE && !options.source) {
+    throw new Error(
+      `@CheckAbility('${action}', '${subject}') requires a source before the handler runs: ` +
+        "'args', 'resource' or 'none'",
+    );
+  }
+
+  const source = options.source ?? 'data';
+  const attributes = [{ action, subject, source }];
+
+  return phase === AuthorizationPhase.POST
+    ? PostAuthVoter(AbilityVoter, { attributes })
+    : PreAuthVoter(AbilityVoter, { attributes });
+}
@@ -0,0 +1,37 @@
+import { ExecutionContext } from '@nestjs/common';
+import { LOAD_RESOURCE_METADATA } from '../constants/voter.constants';
+import { VoterClass } from '../models/voter.interface';
+
+export type ResourceKeyExtractor = (args: Record<string, any>, context: ExecutionContext) => unknown;
+
+export interface LoadResourceOptions {
+  from?: string | ResourceKeyExtractor;
+  notFound?: string | ((context: ExecutionContext) => Error);
+}
+
+export interface LoadResourceMetadata<T = any> extends LoadResourceOptions {
+  serviceClass: VoterClass<T>;
+  methodName: string;
+}
+
+type LoaderMethod<T> = {
+  [K in keyof T]: T[K] extends (key: any) => unknown ? K : never;
+}[keyof T];
+
+export function LoadResource<T extends object, K extends LoaderMethod<T>>(
+  serviceClass: VoterClass<T>,
+  methodName: K,
+  options: LoadResourceOptions = {},
+): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const metadata: LoadResourceMetadata<T> = {
+      serviceClass,
+      methodName: methodName as string,
+      ...options,
+    };
+
+    Reflect.defineMetadata(LOAD_RESOURCE_METADATA, metadata, descriptor.value);
+
+    return descriptor;
+  };
+}
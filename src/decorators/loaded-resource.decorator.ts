@@ -0,0 +1,4 @@
+import { createParamDecorator } from '@nestjs/common';
+import { resolveLoadedResource } from '../utils/resource-store.util';
+
+export const LoadedResource = createParamDecorator(resolveLoadedResource);
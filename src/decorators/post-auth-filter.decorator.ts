@@ -0,0 +1,63 @@
+import { POST_AUTH_FILTER_METADATA } from '../constants/voter.constants';
+import { IVoter, VoterClass, VoterMethodName } from '../models/voter.interface';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoteValue } from '../models/vote-result.enum';
+import { CollectionAdapter } from '../models/collection-adapter.interface';
+import { PostAuthVoterMetadata } from './post-auth-voter.decorator';
+
+export interface PostAuthFilterOptions {
+  adapter?: CollectionAdapter;
+}
+
+export interface PostAuthFilterMetadata<T extends IVoter = IVoter> extends PostAuthVoterMetadata<T> {
+  adapter?: CollectionAdapter;
+}
+
+export function PostAuthFilter<T extends IVoter>(
+  voterClassOrMethod: VoterClass<T> | ((context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue),
+  options: PostAuthFilterOptions = {},
+): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const existingMetadata =
+      (Reflect.getMetadata(POST_AUTH_FILTER_METADATA, descriptor.value) as PostAuthFilterMetadata<T>[] | undefined) ||
+      [];
+
+    const metadata: PostAuthFilterMetadata<T> =
+      typeof voterClassOrMethod === 'function' && voterClassOrMethod.prototype
+        ? {
+            voterClass: voterClassOrMethod as VoterClass<T>,
+            methodName: 'vote',
+            adapter: options.adapter,
+          }
+        : {
+            staticMethod: voterClassOrMethod as (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue,
+            adapter: options.adapter,
+          };
+
+    Reflect.defineMetadata(POST_AUTH_FILTER_METADATA, [...existingMetadata, metadata], descriptor.value);
+
+    return descriptor;
+  };
+}
+
+export function PostAuthFilterMethod<T extends IVoter, K extends VoterMethodName<T>>(
+  voterClass: VoterClass<T>,
+  methodName: K,
+  options: PostAuthFilterOptions = {},
+): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const existingMetadata =
+      (Reflect.getMetadata(POST_AUTH_FILTER_METADATA, descriptor.value) as PostAuthFilterMetadata<T>[] | undefined) ||
+      [];
+
+    const metadata: PostAuthFilterMetadata<T> = {
+      voterClass,
+      methodName: methodName as string,
+      adapter: options.adapter,
+    };
+
+    Reflect.defineMetadata(POST_AUTH_FILTER_METADATA, [...existingMetadata, metadata], descriptor.value);
+
+    return descriptor;
+  };
+}
@@ -1,57 +1,62 @@
 import { POST_AUTH_VOTER_METADATA } from '../constants/voter.constants';
 import { IVoter, VoterClass } from '../models/voter.interface';
 import { VoterContext } from '../models/voter-context.interface';
+import { VoteValue } from '../models/vote-result.enum';
+import { VoterDecoratorOptions } from '../models/voter-options.interface';
 
-export interface PostAuthVoterMetadata<T extends IVoter = IVoter> {
+export interface PostAuthVoterMetadata<T extends IVoter = IVoter> extends VoterDecoratorOptions {
   voterClass?: VoterClass<T>;
   methodName?: string;
-  staticMethod?: (context: VoterContext<any, any, any>) => Promise<boolean> | boolean;
+  staticMethod?: (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue;
 }
 
 type VoterMethod<T> = T extends { [K in keyof T]: T[K] }
   ? {
-      [K in keyof T]: T[K] extends (context: VoterContext<any, any, any>) => Promise<boolean> | boolean ? K : never;
+      [K in keyof T]: T[K] extends (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue ? K : never;
     }[keyof T]
   : never;
 
 export function PostAuthVoter<T extends IVoter>(
-  voterClassOrMethod: VoterClass<T> | ((context: VoterContext<any, any, any>) => Promise<boolean> | boolean),
-): MethodDecorator {
-  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+  voterClassOrMethod: VoterClass<T> | ((context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue),
+  options: VoterDecoratorOptions = {},
+): ClassDecorator & MethodDecorator {
+  return (target: object, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const metadataTarget: object = descriptor ? descriptor.value : target;
     const existingMetadata =
-      (Reflect.getMetadata(POST_AUTH_VOTER_METADATA, descriptor.value) as PostAuthVoterMetadata<T>[] | undefined) || [];
+      (Reflect.getMetadata(POST_AUTH_VOTER_METADATA, metadataTarget) as PostAuthVoterMetadata<T>[] | undefined) || [];
 
     const metadata: PostAuthVoterMetadata<T> =
       typeof voterClassOrMethod === 'function' && voterClassOrMethod.prototype
         ? {
             voterClass: voterClassOrMethod as VoterClass<T>,
             methodName: 'vote',
+            ...options,
           }
         : {
-            staticMethod: voterClassOrMethod as (context: VoterContext<any, any, any>) => Promise<boolean> | boolean,
+            staticMethod: voterClassOrMethod as (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue,
+            ...options,
           };
 
-    Reflect.defineMetadata(POST_AUTH_VOTER_METADATA, [...existingMetadata, metadata], descriptor.value);
-
-    return descriptor;
+    Reflect.defineMetadata(POST_AUTH_VOTER_METADATA, [...existingMetadata, metadata], metadataTarget);
   };
 }
 
 export function PostAuthVoterMethod<T extends IVoter, K extends VoterMethod<T>>(
   voterClass: VoterClass<T>,
   methodName: K,
-): MethodDecorator {
-  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+  options: VoterDecoratorOptions = {},
+): ClassDecorator & MethodDecorator {
+  return (target: object, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const metadataTarget: object = descriptor ? descriptor.value : target;
     const existingMetadata =
-      (Reflect.getMetadata(POST_AUTH_VOTER_METADATA, descriptor.value) as PostAuthVoterMetadata<T>[] | undefined) || [];
+      (Reflect.getMetadata(POST_AUTH_VOTER_METADATA, metadataTarget) as PostAuthVoterMetadata<T>[] | undefined) || [];
 
     const metadata: PostAuthVoterMetadata<T> = {
       voterClass,
       methodName: methodName as string | undefined,
+      ...options,
     };
 
-    Reflect.defineMetadata(POST_AUTH_VOTER_METADATA, [...existingMetadata, metadata], descriptor.value);
-
-    return descriptor;
+    Reflect.defineMetadata(POST_AUTH_VOTER_METADATA, [...existingMetadata, metadata], metadataTarget);
   };
 }
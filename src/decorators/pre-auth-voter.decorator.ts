@@ -1,7 +1,8 @@
 import { PRE_AUTH_VOTER_METADATA } from '../constants/voter.constants';
 import { VoterClass, VoterMethodFunction } from '../models/voter.interface';
+import { VoterDecoratorOptions } from '../models/voter-options.interface';
 
-export interface PreAuthVoterMetadata<T = any> {
+export interface PreAuthVoterMetadata<T = any> extends VoterDecoratorOptions {
   voterClass?: VoterClass<T>;
   methodName?: string;
   staticMethod?: VoterMethodFunction;
@@ -15,42 +16,45 @@ type VoterMethod<T> = T extends { [K in keyof T]: T[K] }
 
 export function PreAuthVoter<T extends object>(
   voterClassOrMethod: VoterClass<T> | VoterMethodFunction,
-): MethodDecorator {
-  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+  options: VoterDecoratorOptions = {},
+): ClassDecorator & MethodDecorator {
+  return (target: object, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const metadataTarget: object = descriptor ? descriptor.value : target;
     const existingMetadata =
-      (Reflect.getMetadata(PRE_AUTH_VOTER_METADATA, descriptor.value) as PreAuthVoterMetadata[] | undefined) || [];
+      (Reflect.getMetadata(PRE_AUTH_VOTER_METADATA, metadataTarget) as PreAuthVoterMetadata[] | undefined) || [];
 
     const metadata: PreAuthVoterMetadata =
       typeof voterClassOrMethod === 'function' && voterClassOrMethod.prototype
         ? {
             voterClass: voterClassOrMethod as VoterClass<T>,
             methodName: 'vote',
+            ...options,
           }
         : {
             staticMethod: voterClassOrMethod as VoterMethodFunction,
+            ...options,
           };
 
-    Reflect.defineMetadata(PRE_AUTH_VOTER_METADATA, [...existingMetadata, metadata], descriptor.value);
-
-    return descriptor;
+    Reflect.defineMetadata(PRE_AUTH_VOTER_METADATA, [...existingMetadata, metadata], metadataTarget);
   };
 }
 
 export function PreAuthVoterMethod<T extends object, K extends VoterMethod<T>>(
   voterClass: VoterClass<T>,
   methodName: K,
-): MethodDecorator {
-  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+  options: VoterDecoratorOptions = {},
+): ClassDecorator & MethodDecorator {
+  return (target: object, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const metadataTarget: object = descriptor ? descriptor.value : target;
     const existingMetadata =
-      (Reflect.getMetadata(PRE_AUTH_VOTER_METADATA, descriptor.value) as PreAuthVoterMetadata<T>[] | undefined) || [];
+      (Reflect.getMetadata(PRE_AUTH_VOTER_METADATA, metadataTarget) as PreAuthVoterMetadata<T>[] | undefined) || [];
 
     const metadata: PreAuthVoterMetadata<T> = {
       voterClass,
       methodName: methodName as string,
+      ...options,
     };
 
-    Reflect.defineMetadata(PRE_AUTH_VOTER_METADATA, [...existingMetadata, metadata], descriptor.value);
-
-    return descriptor;
+    Reflect.defineMetadata(PRE_AUTH_VOTER_METADATA, [...existingMetadata, metadata], metadataTarget);
   };
 }
@@ -0,0 +1,10 @@
+import { PreAuthVoter } from './pre-auth-voter.decorator';
+import { PermissionVoter } from '../voters/permission.voter';
+
+export function RequirePermissions(...permissions: string[]): ClassDecorator & MethodDecorator {
+  if (permissions.length === 0) {
+    throw new Error('@RequirePermissions() requires at least one permission');
+  }
+
+  return PreAuthVoter(PermissionVoter, { attributes: permissions });
+}
@@ -0,0 +1,10 @@
+import { PreAuthVoter } from './pre-auth-voter.decorator';
+import { RoleVoter } from '../voters/role.voter';
+
+export function RequireRoles(...roles: string[]): ClassDecorator & MethodDecorator {
+  if (roles.length === 0) {
+    throw new Error('@RequireRoles() requires at least one role');
+  }
+
+  return PreAuthVoter(RoleVoter, { attributes: roles });
+}
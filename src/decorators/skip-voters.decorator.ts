@@ -0,0 +1,10 @@
+import { SKIP_VOTERS_METADATA } from '../constants/voter.constants';
+import { VoterClass, VoterMethodFunction } from '../models/voter.interface';
+
+export function SkipVoters(...voters: Array<VoterClass | VoterMethodFunction>): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    Reflect.defineMetadata(SKIP_VOTERS_METADATA, voters, descriptor.value);
+
+    return descriptor;
+  };
+}
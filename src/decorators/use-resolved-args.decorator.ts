@@ -0,0 +1,40 @@
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { RESOLVED_ARGS_METADATA, VOTER_ARG_METADATA } from '../constants/voter.constants';
+import { resolveLoadedResource } from '../utils/resource-store.util';
+import { invokeWithResolvedArgs, ResolvedParameters } from '../utils/resolved-args.util';
+
+export function UseResolvedArgs(): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const handler = descriptor.value as (...params: unknown[]) => unknown;
+    let parameters: ResolvedParameters | undefined;
+
+    const getParameters = (): ResolvedParameters => {
+      const routeArgs: Record<string, { index: number; factory?: unknown }> =
+        Reflect.getMetadata(ROUTE_ARGS_METADATA, target.constructor, propertyKey) ?? {};
+
+      return {
+        names: Reflect.getMetadata(VOTER_ARG_METADATA, target.constructor, propertyKey) ?? {},
+        resourceIndexes: Object.values(routeArgs)
+          .filter((param) => param.factory === resolveLoadedResource)
+          .map((param) => param.index),
+      };
+    };
+
+    const wrapper = function (this: unknown, ...params: unknown[]) {
+      parameters ??= getParameters();
+
+      return invokeWithResolvedArgs(wrapper, params, parameters, (resolved) => handler.apply(this, resolved));
+    };
+
+    Object.defineProperty(wrapper, 'name', { value: handler.name });
+
+    for (const key of Reflect.getOwnMetadataKeys(handler)) {
+      Reflect.defineMetadata(key, Reflect.getOwnMetadata(key, handler), wrapper);
+    }
+
+    Reflect.defineMetadata(RESOLVED_ARGS_METADATA, true, wrapper);
+    descriptor.value = wrapper;
+
+    return descriptor;
+  };
+}
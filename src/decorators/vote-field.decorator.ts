@@ -0,0 +1,58 @@
+import { FIELD_VOTER_METADATA } from '../constants/voter.constants';
+import { VoterClass, VoterMethodName } from '../models/voter.interface';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoteValue } from '../models/vote-result.enum';
+import { registerFieldVoter } from '../utils/field-voters.util';
+
+export type FieldRedaction = 'null' | 'omit';
+
+export interface VoteFieldOptions {
+  redaction?: FieldRedaction;
+}
+
+export interface FieldVoterMetadata<T = any> {
+  propertyKey: string;
+  voterClass?: VoterClass<T>;
+  methodName?: string;
+  staticMethod?: (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue;
+  redaction: FieldRedaction;
+}
+
+export function VoteField(
+  staticMethod: (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue,
+  options?: VoteFieldOptions,
+): PropertyDecorator;
+export function VoteField<T extends object, K extends VoterMethodName<T>>(
+  voterClass: VoterClass<T>,
+  methodName?: K,
+  options?: VoteFieldOptions,
+): PropertyDecorator;
+export function VoteField(
+  voterClassOrMethod: VoterClass | ((context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue),
+  methodNameOrOptions?: string | VoteFieldOptions,
+  options: VoteFieldOptions = {},
+): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    const existingMetadata =
+      (Reflect.getMetadata(FIELD_VOTER_METADATA, target) as FieldVoterMetadata[] | undefined) || [];
+
+    const fieldOptions = typeof methodNameOrOptions === 'object' ? methodNameOrOptions : options;
+    const redaction = fieldOptions.redaction ?? 'null';
+
+    const metadata: FieldVoterMetadata = voterClassOrMethod.prototype
+      ? {
+          propertyKey: propertyKey as string,
+          voterClass: voterClassOrMethod as VoterClass,
+          methodName: typeof methodNameOrOptions === 'string' ? methodNameOrOptions : 'vote',
+          redaction,
+        }
+      : {
+          propertyKey: propertyKey as string,
+          staticMethod: voterClassOrMethod as FieldVoterMetadata['staticMethod'],
+          redaction,
+        };
+
+    Reflect.defineMetadata(FIELD_VOTER_METADATA, [...existingMetadata, metadata], target);
+    registerFieldVoter();
+  };
+}
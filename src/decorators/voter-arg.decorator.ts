@@ -0,0 +1,14 @@
+import { VOTER_ARG_METADATA } from '../constants/voter.constants';
+
+export function VoterArg(name: string): ParameterDecorator {
+  return (target: object, propertyKey: string | symbol | undefined, parameterIndex: number) => {
+    if (propertyKey === undefined) {
+      return;
+    }
+
+    const names: Record<number, string> =
+      Reflect.getMetadata(VOTER_ARG_METADATA, target.constructor, propertyKey) || {};
+
+    Reflect.defineMetadata(VOTER_ARG_METADATA, { ...names, [parameterIndex]: name }, target.constructor, propertyKey);
+  };
+}
@@ -0,0 +1,13 @@
+import { VOTER_OPTIONS_METADATA } from '../constants/voter.constants';
+import { VoterHandlerOptions } from '../models/voter-options.interface';
+
+export function VoterOptions(options: VoterHandlerOptions): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const existingOptions =
+      (Reflect.getMetadata(VOTER_OPTIONS_METADATA, descriptor.value) as VoterHandlerOptions | undefined) || {};
+
+    Reflect.defineMetadata(VOTER_OPTIONS_METADATA, { ...existingOptions, ...options }, descriptor.value);
+
+    return descriptor;
+  };
+}
@@ -0,0 +1,11 @@
+import { RequestTimeoutException } from '@nestjs/common';
+
+export class VoterTimeoutException extends RequestTimeoutException {
+  constructor(
+    message: string,
+    readonly voter: string,
+    readonly timeout: number,
+  ) {
+    super(message);
+  }
+}
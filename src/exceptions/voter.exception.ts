@@ -1,7 +1,35 @@
 import { ForbiddenException } from '@nestjs/common';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { VoterDenial } from '../models/voter-denial.interface';
 
 export class VoterException extends ForbiddenException {
-  constructor(message: string = 'Access denied') {
-    super(message);
+  readonly phase?: AuthorizationPhase;
+  readonly voter?: string;
+  readonly code?: string;
+  readonly reason?: string;
+  readonly metadata?: Record<string, any>;
+  readonly extensions: Record<string, any>;
+
+  constructor(message: string = 'Access denied', denial: Partial<Omit<VoterDenial, 'message'>> = {}) {
+    const details = {
+      code: denial.code,
+      reason: denial.reason,
+      phase: denial.phase,
+      voter: denial.voter,
+      metadata: denial.metadata,
+    };
+
+    super({ statusCode: 403, message, error: 'Forbidden', ...VoterException.compact(details) });
+
+    this.phase = denial.phase;
+    this.voter = denial.voter;
+    this.code = denial.code;
+    this.reason = denial.reason;
+    this.metadata = denial.metadata;
+    this.extensions = { code: 'FORBIDDEN', denial: VoterException.compact(details) };
+  }
+
+  private static compact(details: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
   }
 }
@@ -5,4 +5,43 @@ export * from './models/voter.interface';
 export * from './models/voter-context.interface';
 export * from './base/base-voter';
 export * from './exceptions/voter.exception';
+export * from './exceptions/voter-timeout.exception';
 export * from './constants/voter.constants';
+export * from './decorators/voter-options.decorator';
+export * from './models/voter-options.interface';
+export * from './models/decision-strategy.enum';
+export * from './models/authorization-phase.enum';
+export * from './models/operation-type.enum';
+export * from './models/vote-result.enum';
+export * from './models/voter-denial.interface';
+export * from './interceptors/voter.interceptor';
+export * from './models/auth-principal-resolver.interface';
+export * from './services/access-decision-manager.service';
+export * from './services/authorization-checker.service';
+export * from './decorators/post-auth-filter.decorator';
+export * from './models/collection-adapter.interface';
+export * from './adapters/array-collection.adapter';
+export * from './adapters/pagination-collection.adapter';
+export * from './decorators/vote-field.decorator';
+export * from './models/authorization-audit.interface';
+export * from './services/authorization-auditor.service';
+export * from './sinks/console-audit.sink';
+export * from './sinks/in-memory-audit.sink';
+export * from './decorators/cacheable-voter.decorator';
+export * from './models/voter-cache-store.interface';
+export * from './stores/in-memory-voter-cache.store';
+export * from './decorators/skip-voters.decorator';
+export * from './voters/role.voter';
+export * from './voters/permission.voter';
+export * from './decorators/require-roles.decorator';
+export * from './decorators/require-permissions.decorator';
+export * from './models/policy.interface';
+export * from './voters/policy.voter';
+export * from './models/ability.interface';
+export * from './abilities/ability';
+export * from './voters/ability.voter';
+export * from './decorators/check-ability.decorator';
+export * from './decorators/load-resource.decorator';
+export * from './decorators/loaded-resource.decorator';
+export * from './decorators/use-resolved-args.decorator';
+export * from './decorators/voter-arg.decorator';
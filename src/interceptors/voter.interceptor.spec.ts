@@ -1,10 +1,38 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ExecutionContext, CallHandler } from '@nestjs/common';
+import { ExecutionContext, CallHandler, NotFoundException } from '@nestjs/common';
 import { Reflector, ModuleRef } from '@nestjs/core';
-import { of } from 'rxjs';
+import { InterceptorsConsumer } from '@nestjs/core/interceptors/interceptors-consumer';
+import { from, lastValueFrom, Observable, of, toArray } from 'rxjs';
+import { ROUTE_ARGS_METADATA, SSE_METADATA } from '@nestjs/common/constants';
 import { VoterInterceptor } from '../interceptors/voter.interceptor';
+import { AccessDecisionManager } from '../services/access-decision-manager.service';
 import { VoterException } from '../exceptions/voter.exception';
-import { PRE_AUTH_VOTER_METADATA, POST_AUTH_VOTER_METADATA } from '../constants/voter.constants';
+import { VoterTimeoutException } from '../exceptions/voter-timeout.exception';
+import {
+  PRE_AUTH_VOTER_METADATA,
+  POST_AUTH_VOTER_METADATA,
+  POST_AUTH_FILTER_METADATA,
+  SKIP_VOTERS_METADATA,
+  LOAD_RESOURCE_METADATA,
+  VOTER_OPTIONS_METADATA,
+} from '../constants/voter.constants';
+import { PaginationCollectionAdapter } from '../adapters/pagination-collection.adapter';
+import { VoteField } from '../decorators/vote-field.decorator';
+import * as fieldVoters from '../utils/field-voters.util';
+import { PreAuthVoter } from '../decorators/pre-auth-voter.decorator';
+import { SkipVoters } from '../decorators/skip-voters.decorator';
+import { UseResolvedArgs } from '../decorators/use-resolved-args.decorator';
+import { VoterArg } from '../decorators/voter-arg.decorator';
+import { VoterOptions } from '../decorators/voter-options.decorator';
+import { LoadResource, LoadResourceOptions } from '../decorators/load-resource.decorator';
+import { LoadedResource } from '../decorators/loaded-resource.decorator';
+import { CacheableVoter } from '../decorators/cacheable-voter.decorator';
+import { DecisionStrategy } from '../models/decision-strategy.enum';
+import { deny, VoteResult } from '../models/vote-result.enum';
+import { OperationType } from '../models/operation-type.enum';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+import { AuthPrincipalResolver } from '../models/auth-principal-resolver.interface';
 import { BaseVoter } from '../base/base-voter';
 import {VoterContext} from "../models/voter-context.interface";
 
@@ -31,6 +59,7 @@ describe('VoterInterceptor', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         VoterInterceptor,
+        AccessDecisionManager,
         {
           provide: Reflector,
           useValue: {
@@ -51,6 +80,9 @@ describe('VoterInterceptor', () => {
     moduleRef = module.get<ModuleRef>(ModuleRef);
   });
 
+  const createInterceptor = (options: VoterModuleOptions) =>
+    new VoterInterceptor(reflector, new AccessDecisionManager(moduleRef, options), options);
+
   const createMockContext = (
     type: 'http' | 'graphql' = 'http',
     user = { id: 'user1', role: 'user' }
@@ -80,15 +112,30 @@ describe('VoterInterceptor', () => {
     handle: jest.fn().mockReturnValue(of(data)),
   });
 
+  const mockVoters = (voters: unknown[], options?: unknown) => {
+    jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+      if (key === PRE_AUTH_VOTER_METADATA) {
+        return voters.map((staticMethod) => ({ staticMethod }));
+      }
+
+      if (key === VOTER_OPTIONS_METADATA) {
+        return options;
+      }
+
+      return undefined;
+    });
+  };
+
   describe('Pre-authorization', () => {
     it('should pass when no metadata is present', async () => {
       jest.spyOn(reflector, 'get').mockReturnValue(undefined);
 
-      const context = createMockContext();
-      const next = createMockCallHandler();
-      const result = await interceptor.intercept(context, next);
+      const data = { allowAccess: false };
+      const next = createMockCallHandler(data);
+      const result = await interceptor.intercept(createMockContext(), next);
 
-      expect(result).toBe(next.handle());
+      await expect(lastValueFrom(result)).resolves.toBe(data);
+      expect(next.handle).toHaveBeenCalledTimes(1);
     });
 
     it('should pass pre-authorization with voter class', async () => {
@@ -374,6 +421,1410 @@ describe('VoterInterceptor', () => {
     });
   });
 
+  describe('Class-level voters', () => {
+    const calls: string[] = [];
+    const voter = (name: string, result = true) =>
+      Object.defineProperty(() => (calls.push(name), result), 'name', { value: name });
+
+    class ClassVoter extends BaseVoter {
+      async vote() {
+        calls.push('ClassVoter');
+        return true;
+      }
+    }
+
+    @PreAuthVoter(ClassVoter)
+    @PreAuthVoter(voter('classVoter'))
+    class PostsController {
+      @PreAuthVoter(voter('methodVoter'))
+      list() {}
+
+      @SkipVoters()
+      @PreAuthVoter(voter('methodVoter'))
+      health() {}
+
+      @SkipVoters(ClassVoter)
+      stats() {}
+    }
+
+    const createClassContext = (handler: () => void): ExecutionContext =>
+      ({
+        ...createMockContext(),
+        getClass: jest.fn().mockReturnValue(PostsController),
+        getHandler: jest.fn().mockReturnValue(handler),
+      }) as unknown as ExecutionContext;
+
+    beforeEach(() => {
+      calls.length = 0;
+      jest.spyOn(moduleRef, 'get').mockImplementation(() => new ClassVoter());
+      jest
+        .spyOn(reflector, 'get')
+        .mockImplementation((key: unknown, target: unknown) => Reflect.getMetadata(key, target as object));
+    });
+
+    it('should run class voters before method voters', async () => {
+      await interceptor.intercept(createClassContext(PostsController.prototype.list), createMockCallHandler());
+
+      expect(calls).toEqual(['classVoter', 'ClassVoter', 'methodVoter']);
+    });
+
+    it('should skip every class voter', async () => {
+      await interceptor.intercept(createClassContext(PostsController.prototype.health), createMockCallHandler());
+
+      expect(calls).toEqual(['methodVoter']);
+    });
+
+    it('should skip the listed class voters', async () => {
+      await interceptor.intercept(createClassContext(PostsController.prototype.stats), createMockCallHandler());
+
+      expect(calls).toEqual(['classVoter']);
+    });
+
+    it('should not run class voters for field resolvers', async () => {
+      const context = {
+        getType: jest.fn().mockReturnValue('graphql'),
+        getClass: jest.fn().mockReturnValue(PostsController),
+        getHandler: jest.fn().mockReturnValue(PostsController.prototype.list),
+        getArgs: jest.fn().mockReturnValue([
+          { id: 'post1' },
+          {},
+          { req: { user: { id: 'user1' } } },
+          { fieldName: 'list', operation: { operation: 'query' }, path: { key: 'list', prev: { key: 'post' } } },
+        ]),
+      } as unknown as ExecutionContext;
+
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(calls).toEqual(['methodVoter']);
+    });
+  });
+
+  describe('Global voters', () => {
+    const notSuspended = jest.fn();
+    const notSuspendedVoter = (context: VoterContext) => notSuspended(context);
+
+    const createHttpContext = (method: string, path = '/posts'): ExecutionContext =>
+      ({
+        ...createMockContext(),
+        switchToHttp: jest.fn().mockReturnValue({
+          getRequest: jest.fn().mockReturnValue({ user: { id: 'user1' }, method, url: path, route: { path } }),
+        }),
+      }) as unknown as ExecutionContext;
+
+    const createMutationContext = (): ExecutionContext =>
+      ({
+        getType: jest.fn().mockReturnValue('graphql'),
+        getHandler: jest.fn().mockReturnValue(function createPost() {}),
+        getClass: jest.fn(),
+        getArgs: jest.fn().mockReturnValue([
+          undefined,
+          {},
+          { req: { user: { id: 'user1' } } },
+          { fieldName: 'createPost', operation: { operation: 'mutation' }, path: { key: 'createPost' } },
+        ]),
+      }) as unknown as ExecutionContext;
+
+    const mutating = createInterceptor.bind(null, {
+      globalVoters: [
+        {
+          voter: notSuspendedVoter,
+          match: [
+            { operationTypes: [OperationType.MUTATION] },
+            { httpMethods: ['POST', 'PUT', 'PATCH', 'DELETE'] },
+          ],
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      notSuspended.mockReset().mockReturnValue(false);
+      jest.spyOn(reflector, 'get').mockReturnValue(undefined);
+    });
+
+    it('should run for matching handlers without voter decorators', async () => {
+      await expect(mutating().intercept(createHttpContext('POST'), createMockCallHandler())).rejects.toThrow(
+        VoterException,
+      );
+      await expect(mutating().intercept(createMutationContext(), createMockCallHandler())).rejects.toThrow(
+        VoterException,
+      );
+    });
+
+    it('should not run for handlers that do not match', async () => {
+      const result$ = await mutating().intercept(createHttpContext('GET'), createMockCallHandler());
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ allowAccess: true });
+      expect(notSuspended).not.toHaveBeenCalled();
+    });
+
+    it('should match route patterns and predicates', async () => {
+      const when = jest.fn().mockReturnValue(true);
+      const maintenance = createInterceptor({
+        globalVoters: [{ voter: notSuspendedVoter, match: { routes: ['/admin/*', /^\/internal/], when } }],
+      });
+
+      await maintenance.intercept(createHttpContext('GET', '/posts'), createMockCallHandler());
+      expect(notSuspended).not.toHaveBeenCalled();
+
+      await expect(
+        maintenance.intercept(createHttpContext('GET', '/admin/users'), createMockCallHandler()),
+      ).rejects.toThrow(VoterException);
+      await expect(
+        maintenance.intercept(createHttpContext('GET', '/internal/jobs'), createMockCallHandler()),
+      ).rejects.toThrow(VoterException);
+      expect(when).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be excluded with @SkipVoters', async () => {
+      jest
+        .spyOn(reflector, 'get')
+        .mockImplementation((key: unknown) => (key === SKIP_VOTERS_METADATA ? [notSuspendedVoter] : undefined));
+
+      const result$ = await mutating().intercept(createHttpContext('POST'), createMockCallHandler());
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ allowAccess: true });
+      expect(notSuspended).not.toHaveBeenCalled();
+    });
+
+    it.each([DecisionStrategy.AFFIRMATIVE, DecisionStrategy.PRIORITY])(
+      'should pass global voters on their own before the %s strategy',
+      async (strategy) => {
+        const isAdmin = jest.fn().mockReturnValue(false);
+        const gated = createInterceptor({ strategy, globalVoters: [{ voter: notSuspendedVoter }] });
+        jest
+          .spyOn(reflector, 'get')
+          .mockImplementation((key: unknown) =>
+            key === PRE_AUTH_VOTER_METADATA ? [{ staticMethod: (ctx: VoterContext) => isAdmin(ctx) }] : undefined,
+          );
+
+        notSuspended.mockReturnValue(true);
+        await expect(gated.intercept(createHttpContext('POST'), createMockCallHandler())).rejects.toThrow(
+          VoterException,
+        );
+        expect(isAdmin).toHaveBeenCalled();
+
+        notSuspended.mockReturnValue(false);
+        isAdmin.mockReturnValue(true);
+        await expect(gated.intercept(createHttpContext('POST'), createMockCallHandler())).rejects.toThrow(
+          VoterException,
+        );
+      },
+    );
+
+    it('should run post-authorization global voters on the returned data', async () => {
+      const staticMethod = jest.fn().mockReturnValue(true);
+      const result$ = await createInterceptor({
+        globalVoters: [{ voter: (context) => staticMethod(context), phase: AuthorizationPhase.POST }],
+      }).intercept(createHttpContext('GET'), createMockCallHandler());
+
+      await lastValueFrom(result$);
+
+      expect(staticMethod).toHaveBeenCalledWith(expect.objectContaining({ data: { allowAccess: true } }));
+    });
+  });
+
+  describe('Argument sources', () => {
+    const request = { user: { id: 'user1' }, params: { id: 'p1' }, query: {}, body: { id: 'p2' } };
+    const context = {
+      ...createMockContext(),
+      switchToHttp: jest.fn().mockReturnValue({ getRequest: jest.fn().mockReturnValue(request) }),
+    } as unknown as ExecutionContext;
+
+    it('should not let the body override route params', async () => {
+      const voter = jest.fn().mockReturnValue(true);
+      jest
+        .spyOn(reflector, 'get')
+        .mockImplementation((key: unknown) =>
+          key === PRE_AUTH_VOTER_METADATA ? [{ staticMethod: (ctx: VoterContext) => voter(ctx.args) }] : undefined,
+        );
+
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(voter).toHaveBeenCalledWith({ id: 'p1' });
+    });
+
+    it('should read handler and voter argument sources', async () => {
+      const handlerVoter = jest.fn().mockReturnValue(true);
+      const extractorVoter = jest.fn().mockReturnValue(true);
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === VOTER_OPTIONS_METADATA) {
+          return { args: { from: ['query', 'body'] } };
+        }
+
+        if (key === PRE_AUTH_VOTER_METADATA) {
+          return [
+            { staticMethod: (ctx: VoterContext) => handlerVoter(ctx.args) },
+            { staticMethod: (ctx: VoterContext) => extractorVoter(ctx.args), args: { from: (): object => ({ id: 'p3' }) } },
+          ];
+        }
+
+        return undefined;
+      });
+
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(handlerVoter).toHaveBeenCalledWith({ id: 'p2' });
+      expect(extractorVoter).toHaveBeenCalledWith({ id: 'p3' });
+    });
+  });
+
+  describe('Resource loading', () => {
+    class PostsController {
+      update(@LoadedResource() resource: unknown) {
+        return resource;
+      }
+    }
+
+    const [{ factory }] = Object.values(
+      Reflect.getMetadata(ROUTE_ARGS_METADATA, PostsController, 'update') as Record<
+        string,
+        { factory: (data: unknown, context: ExecutionContext) => unknown }
+      >,
+    );
+    const getLoadedResource = (context: ExecutionContext) => factory(undefined, context);
+
+    class PostService {
+      findById = jest.fn();
+    }
+
+    const postService = new PostService();
+
+    const mockResource = (options: LoadResourceOptions = {}, voter?: (context: VoterContext) => boolean) => {
+      jest
+        .spyOn(moduleRef, 'get')
+        .mockImplementation((type: unknown) => (type === PostService ? postService : new TestVoter()));
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === LOAD_RESOURCE_METADATA) {
+          return { serviceClass: PostService, methodName: 'findById', ...options };
+        }
+
+        if (key === PRE_AUTH_VOTER_METADATA && voter) {
+          return [{ staticMethod: voter }];
+        }
+
+        return undefined;
+      });
+    };
+
+    const createArgsContext = (params: Record<string, unknown>): ExecutionContext => {
+      const request = { user: { id: 'user1' }, params, query: {}, body: {} };
+
+      return {
+        ...createMockContext(),
+        switchToHttp: jest.fn().mockReturnValue({ getRequest: jest.fn().mockReturnValue(request) }),
+      } as unknown as ExecutionContext;
+    };
+
+    beforeEach(() => postService.findById.mockReset());
+
+    it('should load the resource before pre-authorization', async () => {
+      const post = { id: 'p1', authorId: 'user1' };
+      postService.findById.mockResolvedValue(post);
+      const voter = jest.fn((context: VoterContext) => context.resource.authorId === context.auth.id);
+      mockResource({}, (context) => voter(context));
+
+      const context = createArgsContext({ id: 'p1' });
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(postService.findById).toHaveBeenCalledWith('p1');
+      expect(voter).toHaveReturnedWith(true);
+      expect(getLoadedResource(context)).toBe(post);
+    });
+
+    it('should keep the resources of aliased GraphQL fields apart', async () => {
+      const posts: Record<string, { id: string }> = { p1: { id: 'p1' }, p2: { id: 'p2' } };
+      postService.findById.mockImplementation(
+        (id: string) => new Promise((resolve) => setTimeout(() => resolve(posts[id]), id === 'p1' ? 20 : 0)),
+      );
+      const voter = jest.fn((context: VoterContext) => context.resource.id === context.args.id);
+      mockResource({}, (context) => voter(context));
+
+      const handler = function post() {};
+      const graphqlContext = { req: { user: { id: 'user1' } } };
+      const createFieldContext = (args: unknown[]) =>
+        ({
+          getType: jest.fn().mockReturnValue('graphql'),
+          getHandler: jest.fn().mockReturnValue(handler),
+          getClass: jest.fn(),
+          getArgs: jest.fn().mockReturnValue(args),
+        }) as unknown as ExecutionContext;
+      const fieldArgs = ['a', 'b'].map((alias, index) => [
+        undefined,
+        { id: `p${index + 1}` },
+        graphqlContext,
+        { operation: { operation: 'query' }, fieldName: 'post', path: { key: alias } },
+      ]);
+
+      await Promise.all(
+        fieldArgs.map((args) => interceptor.intercept(createFieldContext(args), createMockCallHandler())),
+      );
+
+      expect(voter).toHaveBeenCalledTimes(2);
+      expect(voter).not.toHaveReturnedWith(false);
+      expect(getLoadedResource(createFieldContext([...fieldArgs[0]]))).toBe(posts.p1);
+      expect(getLoadedResource(createFieldContext([...fieldArgs[1]]))).toBe(posts.p2);
+    });
+
+    it('should read the key with a custom extractor', async () => {
+      postService.findById.mockResolvedValue({});
+      mockResource({ from: (args) => Number(args.postId) });
+
+      await interceptor.intercept(createArgsContext({ postId: '42' }), createMockCallHandler());
+
+      expect(postService.findById).toHaveBeenCalledWith(42);
+    });
+
+    it('should throw NotFoundException when the resource is missing', async () => {
+      postService.findById.mockResolvedValue(null);
+      mockResource({ notFound: 'Post not found' });
+
+      await expect(interceptor.intercept(createArgsContext({ id: 'p1' }), createMockCallHandler())).rejects.toThrow(
+        new NotFoundException('Post not found'),
+      );
+    });
+
+    it('should throw the configured error when the resource is missing', async () => {
+      postService.findById.mockResolvedValue(undefined);
+      mockResource({ notFound: () => new VoterException('Hidden') });
+
+      await expect(interceptor.intercept(createArgsContext({ id: 'p1' }), createMockCallHandler())).rejects.toThrow(
+        'Hidden',
+      );
+    });
+  });
+
+  describe('Resolved handler arguments', () => {
+    const voter = jest.fn();
+    const update = jest.fn();
+
+    class PostService {
+      findById = jest.fn((id: number) => ({ id, authorId: 'user1' }));
+    }
+
+    class PostsController {
+      @UseResolvedArgs()
+      @PreAuthVoter((context: VoterContext) => voter(context.args))
+      update(@VoterArg('id') id: number, @VoterArg('dto') dto: { title: string }) {
+        update(id, dto);
+        return { id, ...dto };
+      }
+
+      @UseResolvedArgs()
+      @PreAuthVoter((context: VoterContext) => voter(context.args))
+      rename(@VoterArg('id') id: number, label = 'a,b', @VoterArg('dto') dto?: { title: string }) {
+        return { id, label, ...dto };
+      }
+
+      @UseResolvedArgs()
+      @LoadResource(PostService, 'findById')
+      @PreAuthVoter((context: VoterContext) => voter(context.resource))
+      remove(@VoterArg('id') id: number, @LoadedResource() post: unknown) {
+        return post;
+      }
+
+      @UseResolvedArgs()
+      @VoterOptions({ args: { from: 'body' } })
+      @PreAuthVoter((context: VoterContext) => voter(context.args))
+      publish(id: number) {
+        return id;
+      }
+    }
+
+    const controller = new PostsController();
+
+    const handle = async (methodName: keyof PostsController, params: unknown[]) => {
+      const interceptor = new VoterInterceptor(new Reflector(), new AccessDecisionManager(moduleRef), {});
+      const request = { user: { id: 'user1' }, params: { id: '1' }, query: {}, body: { title: 'Title' } };
+      const handler = controller[methodName] as (...args: unknown[]) => unknown;
+      const result = await new InterceptorsConsumer().intercept(
+        [interceptor],
+        [request, {}],
+        controller,
+        handler,
+        async () => {
+          await Promise.resolve();
+          return handler.apply(controller, params);
+        },
+        'http',
+      );
+
+      return lastValueFrom(result as Observable<unknown>);
+    };
+
+    beforeEach(() => {
+      voter.mockReset();
+      update.mockReset();
+    });
+
+    it('should pass the piped parameters by name and index to pre-auth voters', async () => {
+      const dto = { title: 'Title' };
+      voter.mockReturnValue(true);
+
+      await expect(handle('update', [1, dto])).resolves.toEqual({ id: 1, title: 'Title' });
+
+      expect(voter).toHaveBeenCalledWith({ 0: 1, 1: dto, id: 1, dto });
+      expect(update).toHaveBeenCalledWith(1, dto);
+    });
+
+    it('should only name the parameters decorated with @VoterArg', async () => {
+      const dto = { title: 'Title' };
+      voter.mockReturnValue(true);
+
+      await handle('rename', [1, 'a,b', dto]);
+
+      expect(voter).toHaveBeenCalledWith({ 0: 1, 1: 'a,b', 2: dto, id: 1, dto });
+    });
+
+    it('should not call the handler when denied', async () => {
+      voter.mockReturnValue(false);
+
+      await expect(handle('update', [1, { title: 'Title' }])).rejects.toThrow(VoterException);
+
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should load the resource with the resolved parameters', async () => {
+      const postService = new PostService();
+      jest
+        .spyOn(moduleRef, 'get')
+        .mockImplementation((type: unknown) => (type === PostService ? postService : new TestVoter()));
+      voter.mockReturnValue(true);
+
+      await expect(handle('remove', [7, undefined])).resolves.toEqual({ id: 7, authorId: 'user1' });
+
+      expect(postService.findById).toHaveBeenCalledWith(7);
+      expect(voter).toHaveBeenCalledWith({ id: 7, authorId: 'user1' });
+    });
+
+    it('should reject the args option of the handler', async () => {
+      voter.mockReturnValue(true);
+
+      await expect(handle('publish', [1])).rejects.toThrow('cannot be combined with @UseResolvedArgs()');
+
+      expect(voter).not.toHaveBeenCalled();
+    });
+
+    it('should deny handler calls that bypass the interceptor', async () => {
+      expect(controller.update.name).toBe('update');
+      await expect(controller.update(2, { title: 'Title' })).rejects.toThrow(VoterException);
+      expect(voter).not.toHaveBeenCalled();
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Post-authorization filtering', () => {
+    const mockFilter = (metadata: unknown[]) => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === POST_AUTH_FILTER_METADATA) {
+          return metadata;
+        }
+
+        return undefined;
+      });
+    };
+
+    it('should remove denied items from an array', async () => {
+      mockFilter([{ voterClass: TestVoter, methodName: 'vote' }]);
+
+      const items = [{ id: 1, allowAccess: true }, { id: 2, allowAccess: false }, { id: 3, allowAccess: true }];
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler(items));
+
+      await expect(lastValueFrom(result$)).resolves.toEqual([
+        { id: 1, allowAccess: true },
+        { id: 3, allowAccess: true },
+      ]);
+    });
+
+    it('should filter the records of a pagination wrapper', async () => {
+      mockFilter([{ voterClass: TestVoter, methodName: 'vote' }]);
+
+      const page = { records: [{ allowAccess: false }, { allowAccess: true }], total: 10 };
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler(page));
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ records: [{ allowAccess: true }], total: 10 });
+    });
+
+    it('should adjust the total with a configured adapter', async () => {
+      mockFilter([
+        {
+          voterClass: TestVoter,
+          methodName: 'vote',
+          adapter: new PaginationCollectionAdapter({ itemsKey: 'items', totalKey: 'count', adjustTotal: true }),
+        },
+      ]);
+
+      const page = { items: [{ allowAccess: false }, { allowAccess: true }], count: 10 };
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler(page));
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ items: [{ allowAccess: true }], count: 9 });
+    });
+
+    it('should replace a denied single item with null', async () => {
+      mockFilter([{ voterClass: TestVoter, methodName: 'vote' }]);
+
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler({ allowAccess: false }));
+
+      await expect(lastValueFrom(result$)).resolves.toBeNull();
+    });
+  });
+
+  describe('Field redaction', () => {
+    class UserDto {
+      id!: string;
+
+      @VoteField(TestVoter, 'canCreate')
+      email!: string;
+
+      @VoteField((context: VoterContext<any, UserDto, any>) => context.auth.id === context.data.id, {
+        redaction: 'omit',
+      })
+      phone!: string;
+
+      constructor(values: Partial<UserDto>) {
+        Object.assign(this, values);
+      }
+    }
+
+    const mockPreAuth = () => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === PRE_AUTH_VOTER_METADATA) {
+          return [{ staticMethod: jest.fn().mockResolvedValue(true) }];
+        }
+
+        return undefined;
+      });
+    };
+
+    it('should redact denied fields recursively', async () => {
+      mockPreAuth();
+
+      const own = new UserDto({ id: 'user1', email: 'own@example.com', phone: '1' });
+      const other = new UserDto({ id: 'user2', email: 'other@example.com', phone: '2' });
+      const result$ = await interceptor.intercept(
+        createMockContext('http', { id: 'user1', role: 'user' }),
+        createMockCallHandler({ users: [own, other], total: 2 }),
+      );
+
+      const result = await lastValueFrom(result$);
+
+      expect(result.total).toBe(2);
+      expect(result.users[0]).toBeInstanceOf(UserDto);
+      expect(result.users[0]).toEqual({ id: 'user1', email: null, phone: '1' });
+      expect(result.users[1]).toEqual({ id: 'user2', email: null });
+      expect(other.phone).toBe('2');
+    });
+
+    it('should keep granted fields', async () => {
+      mockPreAuth();
+
+      const user = new UserDto({ id: 'user2', email: 'other@example.com', phone: '2' });
+      const result$ = await interceptor.intercept(
+        createMockContext('http', { id: 'user1', role: 'admin' }),
+        createMockCallHandler(user),
+      );
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ id: 'user2', email: 'other@example.com' });
+    });
+
+    it('should redact fields returned from handlers without voters', async () => {
+      jest.spyOn(reflector, 'get').mockReturnValue(undefined);
+
+      const user = new UserDto({ id: 'user2', email: 'other@example.com', phone: '2' });
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler({ user }));
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ user: { id: 'user2', email: null } });
+    });
+
+    it('should not walk responses while no field is voted', async () => {
+      jest.spyOn(reflector, 'get').mockReturnValue(undefined);
+      jest.spyOn(fieldVoters, 'hasRegisteredFieldVoters').mockReturnValueOnce(false);
+
+      const response = { user: new UserDto({ id: 'user2', email: 'other@example.com' }) };
+      const handled = of(response);
+      const result$ = await interceptor.intercept(createMockContext(), { handle: () => handled });
+
+      expect(result$).toBe(handled);
+      await expect(lastValueFrom(result$)).resolves.toBe(response);
+    });
+  });
+
+  describe('Denial details', () => {
+    class OwnerVoter extends BaseVoter {
+      async vote(context: VoterContext<any, any, any>) {
+        return context.auth?.id === context.args?.authorId || deny('POST_NOT_OWNER', { postId: 'p1' }, 'Not the author');
+      }
+    }
+
+    it('should expose the structured denial on the exception', async () => {
+      jest.spyOn(moduleRef, 'get').mockImplementation(() => new OwnerVoter());
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === PRE_AUTH_VOTER_METADATA) {
+          return [{ voterClass: OwnerVoter, methodName: 'vote' }];
+        }
+
+        return undefined;
+      });
+
+      const error = (await interceptor
+        .intercept(createMockContext(), createMockCallHandler())
+        .catch((exception: VoterException) => exception)) as VoterException;
+
+      expect(error).toBeInstanceOf(VoterException);
+      expect(error.getStatus()).toBe(403);
+      expect(error.getResponse()).toEqual({
+        statusCode: 403,
+        message: 'Pre-authorization denied by OwnerVoter.vote',
+        error: 'Forbidden',
+        code: 'POST_NOT_OWNER',
+        reason: 'Not the author',
+        phase: AuthorizationPhase.PRE,
+        voter: 'OwnerVoter.vote',
+        metadata: { postId: 'p1' },
+      });
+      expect(error.extensions).toEqual({
+        code: 'FORBIDDEN',
+        denial: {
+          code: 'POST_NOT_OWNER',
+          reason: 'Not the author',
+          phase: AuthorizationPhase.PRE,
+          voter: 'OwnerVoter.vote',
+          metadata: { postId: 'p1' },
+        },
+      });
+    });
+
+    it('should keep the plain response body for boolean denials', async () => {
+      mockVoters([jest.fn().mockResolvedValue(false)]);
+
+      const error = (await interceptor
+        .intercept(createMockContext(), createMockCallHandler())
+        .catch((exception: VoterException) => exception)) as VoterException;
+
+      expect(error.getResponse()).toEqual({
+        statusCode: 403,
+        message: 'Pre-authorization access denied',
+        error: 'Forbidden',
+        phase: AuthorizationPhase.PRE,
+      });
+    });
+  });
+
+  describe('Decision strategies', () => {
+    it('should grant when any voter grants with affirmative strategy', async () => {
+      const deny = jest.fn().mockResolvedValue(false);
+      const grant = jest.fn().mockResolvedValue(true);
+      const skipped = jest.fn().mockResolvedValue(false);
+
+      mockVoters([deny, grant, skipped], { strategy: DecisionStrategy.AFFIRMATIVE });
+
+      const next = createMockCallHandler();
+      await interceptor.intercept(createMockContext(), next);
+
+      expect(next.handle).toHaveBeenCalled();
+      expect(skipped).not.toHaveBeenCalled();
+    });
+
+    it('should deny when every voter denies with affirmative strategy', async () => {
+      mockVoters([jest.fn().mockResolvedValue(false), jest.fn().mockResolvedValue(false)], {
+        strategy: DecisionStrategy.AFFIRMATIVE,
+      });
+
+      await expect(
+        interceptor.intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+
+    it('should follow the majority with consensus strategy', async () => {
+      mockVoters(
+        [jest.fn().mockResolvedValue(true), jest.fn().mockResolvedValue(false), jest.fn().mockResolvedValue(false)],
+        { strategy: DecisionStrategy.CONSENSUS },
+      );
+
+      await expect(
+        interceptor.intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+
+    it('should apply the tie-break setting with consensus strategy', async () => {
+      const voters = [jest.fn().mockResolvedValue(true), jest.fn().mockResolvedValue(false)];
+
+      mockVoters(voters, { strategy: DecisionStrategy.CONSENSUS });
+      const next = createMockCallHandler();
+      await interceptor.intercept(createMockContext(), next);
+      expect(next.handle).toHaveBeenCalled();
+
+      mockVoters(voters, { strategy: DecisionStrategy.CONSENSUS, allowIfEqualGrantedDenied: false });
+      await expect(
+        interceptor.intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+
+    it('should let the first non-abstaining voter decide with priority strategy', async () => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === POST_AUTH_VOTER_METADATA) {
+          return [
+            { voterClass: TestVoter, methodName: 'canCreate' },
+            { staticMethod: jest.fn().mockResolvedValue(false) },
+          ];
+        }
+
+        if (key === VOTER_OPTIONS_METADATA) {
+          return { strategy: DecisionStrategy.PRIORITY };
+        }
+
+        return undefined;
+      });
+
+      const context = createMockContext('http', { id: 'user1', role: 'admin' });
+      const result$ = await interceptor.intercept(context, createMockCallHandler({ allowAccess: true }));
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ allowAccess: true });
+    });
+
+    it('should use the module-wide strategy when the handler does not set one', async () => {
+      const affirmativeInterceptor = createInterceptor({
+        strategy: DecisionStrategy.AFFIRMATIVE,
+      });
+
+      mockVoters([jest.fn().mockResolvedValue(false), jest.fn().mockResolvedValue(true)]);
+
+      const next = createMockCallHandler();
+      await affirmativeInterceptor.intercept(createMockContext(), next);
+
+      expect(next.handle).toHaveBeenCalled();
+    });
+  });
+
+  describe('Parallel evaluation', () => {
+    const never = () => new Promise<boolean>(() => undefined);
+
+    it('should start every voter before the first one settles', async () => {
+      let resolveFirst: (value: boolean) => void = () => undefined;
+      const first = jest.fn(() => new Promise<boolean>((resolve) => (resolveFirst = resolve)));
+      const second = jest.fn().mockResolvedValue(true);
+      mockVoters([first, second], { parallel: true });
+
+      const result = interceptor.intercept(createMockContext(), createMockCallHandler());
+      await new Promise(setImmediate);
+
+      expect(second).toHaveBeenCalled();
+
+      resolveFirst(true);
+      await expect(lastValueFrom(await result)).resolves.toEqual({ allowAccess: true });
+    });
+
+    it('should settle on the first deny without waiting for pending voters', async () => {
+      mockVoters([never, jest.fn().mockResolvedValue(false)], { parallel: true });
+
+      await expect(interceptor.intercept(createMockContext(), createMockCallHandler())).rejects.toThrow(
+        VoterException,
+      );
+    });
+
+    it('should keep the declaration order for the priority strategy', async () => {
+      mockVoters(
+        [
+          () => new Promise((resolve) => setTimeout(() => resolve(false), 10)),
+          jest.fn().mockResolvedValue(true),
+        ],
+        { parallel: true, strategy: DecisionStrategy.PRIORITY },
+      );
+
+      await expect(interceptor.intercept(createMockContext(), createMockCallHandler())).rejects.toThrow(
+        VoterException,
+      );
+    });
+  });
+
+  describe('Voter timeouts', () => {
+    const never = () => new Promise<boolean>(() => undefined);
+
+    it('should deny when a voter times out', async () => {
+      mockVoters([never], { voterTimeout: 10 });
+
+      const error = (await interceptor
+        .intercept(createMockContext(), createMockCallHandler())
+        .catch((exception: VoterException) => exception)) as VoterException;
+
+      expect(error).toBeInstanceOf(VoterException);
+      expect(error.code).toBe('VOTER_TIMEOUT');
+      expect(error.reason).toBe('never timed out after 10ms');
+    });
+
+    it('should abstain when configured', async () => {
+      mockVoters([never, jest.fn().mockResolvedValue(true)], { voterTimeout: 10, onTimeout: 'abstain' });
+
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler());
+
+      await expect(lastValueFrom(result$)).resolves.toEqual({ allowAccess: true });
+    });
+
+    it('should throw VoterTimeoutException when configured', async () => {
+      mockVoters([never], { voterTimeout: 10, onTimeout: 'error' });
+
+      await expect(interceptor.intercept(createMockContext(), createMockCallHandler())).rejects.toThrow(
+        VoterTimeoutException,
+      );
+    });
+  });
+
+  describe('Vote results', () => {
+    it('should ignore abstaining voters', async () => {
+      mockVoters([jest.fn().mockResolvedValue(VoteResult.ABSTAIN), jest.fn().mockResolvedValue(VoteResult.GRANT)]);
+
+      const next = createMockCallHandler();
+      await interceptor.intercept(createMockContext(), next);
+
+      expect(next.handle).toHaveBeenCalled();
+    });
+
+    it('should deny when a voter returns VoteResult.DENY', async () => {
+      mockVoters([jest.fn().mockResolvedValue(VoteResult.GRANT), jest.fn().mockResolvedValue(VoteResult.DENY)]);
+
+      await expect(
+        interceptor.intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+
+    it('should allow when every voter abstains by default', async () => {
+      mockVoters([jest.fn().mockResolvedValue(VoteResult.ABSTAIN)]);
+
+      const next = createMockCallHandler();
+      await interceptor.intercept(createMockContext(), next);
+
+      expect(next.handle).toHaveBeenCalled();
+    });
+
+    it('should deny when every voter abstains and allowIfAllAbstain is disabled', async () => {
+      mockVoters([jest.fn().mockResolvedValue(VoteResult.ABSTAIN)], { allowIfAllAbstain: false });
+
+      await expect(
+        interceptor.intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+  });
+
+  describe('Module options', () => {
+    it('should read the principal through the user extractor', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod]);
+
+      await createInterceptor({ userExtractor: () => ({ id: 'extracted' }) }).intercept(
+        createMockContext(),
+        createMockCallHandler(),
+      );
+
+      expect(staticMethod).toHaveBeenCalledWith(expect.objectContaining({ auth: { id: 'extracted' } }));
+    });
+
+    it('should use the default denial message', async () => {
+      mockVoters([jest.fn().mockResolvedValue(false)]);
+
+      await expect(
+        createInterceptor({ deniedMessage: 'Nope' }).intercept(createMockContext(), createMockCallHandler())
+      ).rejects.toThrow('Nope');
+    });
+
+    it('should throw the error built by the exception factory', async () => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === PRE_AUTH_VOTER_METADATA) {
+          return [{ voterClass: TestVoter, methodName: 'canCreate' }];
+        }
+
+        return undefined;
+      });
+
+      const exceptionFactory = jest.fn().mockReturnValue(new NotFoundException());
+      const context = createMockContext();
+
+      await expect(
+        createInterceptor({ exceptionFactory }).intercept(context, createMockCallHandler())
+      ).rejects.toThrow(NotFoundException);
+
+      expect(exceptionFactory).toHaveBeenCalledWith(
+        {
+          phase: AuthorizationPhase.PRE,
+          message: 'Pre-authorization denied by TestVoter.canCreate',
+          voter: 'TestVoter.canCreate',
+        },
+        context,
+      );
+    });
+  });
+
+  describe('Hiding existence', () => {
+    const mockPostAuth = (metadata: Record<string, unknown> = {}, options?: unknown) => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === POST_AUTH_VOTER_METADATA) {
+          return [{ voterClass: TestVoter, methodName: 'vote', ...metadata }];
+        }
+
+        if (key === VOTER_OPTIONS_METADATA) {
+          return options;
+        }
+
+        return undefined;
+      });
+    };
+
+    it('should throw NotFoundException when enabled for the module', async () => {
+      mockPostAuth();
+
+      const result$ = await createInterceptor({ hideExistence: true }).intercept(
+        createMockContext(),
+        createMockCallHandler({ allowAccess: false }),
+      );
+
+      await expect(lastValueFrom(result$)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException when enabled on the decorator', async () => {
+      mockPostAuth({ hideExistence: true });
+
+      const result$ = await interceptor.intercept(createMockContext(), createMockCallHandler({ allowAccess: false }));
+
+      await expect(lastValueFrom(result$)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should prefer the decorator exception factory over the module one', async () => {
+      const moduleFactory = jest.fn().mockReturnValue(new Error('module'));
+      const exceptionFactory = jest.fn().mockReturnValue(new Error('decorator'));
+      mockPostAuth({ exceptionFactory });
+
+      const result$ = await createInterceptor({ exceptionFactory: moduleFactory, hideExistence: true }).intercept(
+        createMockContext(),
+        createMockCallHandler({ allowAccess: false }),
+      );
+
+      await expect(lastValueFrom(result$)).rejects.toThrow('decorator');
+      expect(exceptionFactory).toHaveBeenCalledWith(
+        expect.objectContaining({ phase: AuthorizationPhase.POST, voter: 'TestVoter.vote' }),
+        expect.anything(),
+      );
+      expect(moduleFactory).not.toHaveBeenCalled();
+    });
+
+    it('should let the handler options disable a module-wide setting', async () => {
+      mockPostAuth({}, { hideExistence: false });
+
+      const result$ = await createInterceptor({ hideExistence: true }).intercept(
+        createMockContext(),
+        createMockCallHandler({ allowAccess: false }),
+      );
+
+      await expect(lastValueFrom(result$)).rejects.toThrow(VoterException);
+    });
+
+    it('should resolve GraphQL results to null', async () => {
+      mockPostAuth({ hideExistence: true });
+
+      const context = {
+        getType: jest.fn().mockReturnValue('graphql'),
+        getHandler: jest.fn().mockReturnValue(function post() {}),
+        getClass: jest.fn(),
+        getArgs: jest.fn().mockReturnValue([
+          undefined,
+          { id: 'p1' },
+          { req: { user: { id: 'user1' } } },
+          { fieldName: 'post', operation: { operation: 'query' }, path: { key: 'post' } },
+        ]),
+      } as unknown as ExecutionContext;
+
+      const result$ = await interceptor.intercept(context, createMockCallHandler({ allowAccess: false }));
+
+      await expect(lastValueFrom(result$)).resolves.toBeNull();
+    });
+  });
+
+  describe('Request cache', () => {
+    const canView = jest.fn();
+
+    @CacheableVoter()
+    class CachedVoter extends BaseVoter {
+      async vote() {
+        return true;
+      }
+
+      async canView(context: VoterContext<any, any, any>) {
+        return canView(context);
+      }
+
+      @CacheableVoter({ key: (context) => context.parent?.authorId })
+      async canViewField(context: VoterContext<any, any, any>) {
+        return canView(context);
+      }
+    }
+
+    class UncachedVoter extends BaseVoter {
+      async vote(context: VoterContext<any, any, any>) {
+        return canView(context);
+      }
+    }
+
+    const mockVoter = (voterClass: typeof BaseVoter, methodName = 'vote') => {
+      jest.spyOn(moduleRef, 'get').mockImplementation(() => new (voterClass as new () => BaseVoter)());
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) =>
+        key === PRE_AUTH_VOTER_METADATA ? [{ voterClass, methodName }] : undefined,
+      );
+    };
+
+    beforeEach(() => canView.mockReset().mockResolvedValue(true));
+
+    it('should run a cacheable voter once per request', async () => {
+      mockVoter(CachedVoter, 'canView');
+      const context = createMockContext();
+
+      await interceptor.intercept(context, createMockCallHandler());
+      await interceptor.intercept(context, createMockCallHandler());
+      await interceptor.intercept(createMockContext(), createMockCallHandler());
+
+      expect(canView).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache voters that are not cacheable', async () => {
+      mockVoter(UncachedVoter);
+      const context = createMockContext();
+
+      await interceptor.intercept(context, createMockCallHandler());
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(canView).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key the cache with the configured key', async () => {
+      mockVoter(CachedVoter, 'canViewField');
+      const graphqlContext = { req: { user: { id: 'user1' } } };
+      const info = { operation: { operation: 'query' }, path: { key: 'author', prev: { key: 'posts' } } };
+      const contexts = ['a', 'a', 'b'].map(
+        (authorId) =>
+          ({
+            getType: jest.fn().mockReturnValue('graphql'),
+            getHandler: jest.fn().mockReturnValue(function author() {}),
+            getClass: jest.fn(),
+            getArgs: jest.fn().mockReturnValue([{ authorId }, {}, graphqlContext, info]),
+          }) as unknown as ExecutionContext,
+      );
+
+      for (const context of contexts) {
+        await interceptor.intercept(context, createMockCallHandler());
+      }
+
+      expect(canView).toHaveBeenCalledTimes(2);
+    });
+
+    describe('principals', () => {
+      const request = { user: {} as unknown, params: {}, query: {}, body: {} };
+      const context = {
+        ...createMockContext(),
+        switchToHttp: jest.fn().mockReturnValue({ getRequest: jest.fn().mockReturnValue(request) }),
+      } as unknown as ExecutionContext;
+
+      const intercept = async (cached: VoterInterceptor, ...principals: unknown[]) => {
+        for (const principal of principals) {
+          request.user = principal;
+          await cached.intercept(context, createMockCallHandler());
+        }
+      };
+
+      beforeEach(() => mockVoter(CachedVoter, 'canView'));
+
+      it('should not share votes between principals with the same id', async () => {
+        await intercept(interceptor, { id: 1, role: 'admin' }, { id: '1', type: 'service' });
+
+        expect(canView).toHaveBeenCalledTimes(2);
+      });
+
+      it('should key the principal with the configured principal key', async () => {
+        const cached = createInterceptor({ principalKey: (auth) => `${auth.type}:${auth.id}` });
+
+        await intercept(cached, { id: 1, type: 'user', name: 'Jane' }, { id: 1, type: 'user', name: 'Janet' });
+        await intercept(cached, { id: 1, type: 'service' });
+
+        expect(canView).toHaveBeenCalledTimes(2);
+      });
+    });
+  });
+
+  describe('Principal resolution', () => {
+    class CurrentUserResolver implements AuthPrincipalResolver {
+      async resolve(context: ExecutionContext) {
+        return { id: 'loaded', type: context.getType() };
+      }
+    }
+
+    it('should use the principal resolver registered on the module', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod]);
+
+      const resolverInterceptor = createInterceptor({
+        principalResolver: { resolve: () => ({ id: 'from-module' }) },
+        userExtractor: () => ({ id: 'from-extractor' }),
+      });
+
+      await resolverInterceptor.intercept(createMockContext(), createMockCallHandler());
+
+      expect(staticMethod).toHaveBeenCalledWith(expect.objectContaining({ auth: { id: 'from-module' } }));
+    });
+
+    it('should prefer the principal resolver of the handler', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod], { principalResolver: CurrentUserResolver });
+      jest.spyOn(moduleRef, 'get').mockImplementation(() => {
+        throw new Error('Not registered');
+      });
+
+      const resolverInterceptor = createInterceptor({
+        principalResolver: { resolve: () => ({ id: 'from-module' }) },
+      });
+
+      await resolverInterceptor.intercept(createMockContext(), createMockCallHandler());
+
+      expect(staticMethod).toHaveBeenCalledWith(expect.objectContaining({ auth: { id: 'loaded', type: 'http' } }));
+    });
+  });
+
+  describe('WebSocket and microservice contexts', () => {
+    const createTransportContext = (type: 'ws' | 'rpc', data: unknown, client: unknown): ExecutionContext => {
+      const host = { getData: jest.fn().mockReturnValue(data), getClient: jest.fn().mockReturnValue(client) };
+
+      return {
+        ...createMockContext(),
+        getType: jest.fn().mockReturnValue(type),
+        getHandler: jest.fn().mockReturnValue(function handleMessage() {}),
+        switchToWs: jest.fn().mockReturnValue(host),
+        switchToRpc: jest.fn().mockReturnValue({ ...host, getContext: jest.fn().mockReturnValue(client) }),
+      } as unknown as ExecutionContext;
+    };
+
+    it('should read args and principal from a websocket message', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod]);
+
+      const context = createTransportContext('ws', { roomId: 'r1' }, { data: { user: { id: 'socket-user' } } });
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(staticMethod).toHaveBeenCalledWith(
+        expect.objectContaining({
+          args: { roomId: 'r1' },
+          auth: { id: 'socket-user' },
+          methodName: 'handleMessage',
+          operationType: OperationType.WS,
+        }),
+      );
+    });
+
+    it('should read args and principal from a microservice message', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod]);
+
+      const context = createTransportContext('rpc', { orderId: 'o1' }, { user: { id: 'rpc-user' } });
+      await interceptor.intercept(context, createMockCallHandler());
+
+      expect(staticMethod).toHaveBeenCalledWith(
+        expect.objectContaining({
+          args: { orderId: 'o1' },
+          auth: { id: 'rpc-user' },
+          operationType: OperationType.RPC,
+        }),
+      );
+    });
+  });
+
+  describe('GraphQL field resolvers', () => {
+    const createFieldContext = (parent: unknown, user = { id: 'user1', role: 'user' }): ExecutionContext => {
+      const info = {
+        fieldName: 'email',
+        operation: { operation: 'query' },
+        path: { key: 'email', prev: { key: 0, prev: { key: 'users' } } },
+        returnType: { toString: () => 'String' },
+      };
+
+      return {
+        getType: jest.fn().mockReturnValue('graphql'),
+        getHandler: jest.fn().mockReturnValue(function email() {}),
+        getClass: jest.fn(),
+        getArgs: jest.fn().mockReturnValue([parent, {}, { req: { user } }, info]),
+      } as unknown as ExecutionContext;
+    };
+
+    it('should expose the parent object and field info to voters', async () => {
+      const staticMethod = jest.fn().mockResolvedValue(true);
+      mockVoters([staticMethod]);
+
+      const parent = { id: 'user2' };
+      await interceptor.intercept(createFieldContext(parent), createMockCallHandler('user2@example.com'));
+
+      expect(staticMethod).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: parent,
+          parent,
+          path: ['users', 0, 'email'],
+          returnType: 'String',
+          methodName: 'email',
+          operationType: OperationType.QUERY,
+        }),
+      );
+    });
+
+    it('should throw for the denied field by default', async () => {
+      mockVoters([jest.fn().mockResolvedValue(false)]);
+
+      await expect(
+        interceptor.intercept(createFieldContext({ id: 'user2' }), createMockCallHandler())
+      ).rejects.toThrow(VoterException);
+    });
+
+    it('should resolve the denied field to null when configured', async () => {
+      mockVoters([jest.fn().mockResolvedValue(false)], { fieldDenial: 'null' });
+
+      const next = createMockCallHandler('user2@example.com');
+      const result$ = await interceptor.intercept(createFieldContext({ id: 'user2' }), next);
+
+      await expect(lastValueFrom(result$)).resolves.toBeNull();
+      expect(next.handle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GraphQL subscriptions', () => {
+    const createSubscriptionContext = (): ExecutionContext =>
+      ({
+        getType: jest.fn().mockReturnValue('graphql'),
+        getHandler: jest.fn().mockReturnValue(function postUpdated() {}),
+        getClass: jest.fn(),
+        getArgs: jest.fn().mockReturnValue([
+          undefined,
+          {},
+          { req: { user: { id: 'user1' } } },
+          { fieldName: 'postUpdated', operation: { operation: 'subscription' }, path: { key: 'postUpdated' } },
+        ]),
+      }) as unknown as ExecutionContext;
+
+    async function* publish() {
+      yield { postUpdated: { authorId: 'user1', title: 'First' } };
+      yield { postUpdated: { authorId: 'user2', title: 'Second' } };
+      yield { postUpdated: { authorId: 'user1', title: 'Third' } };
+    }
+
+    const collect = async (iterator: AsyncIterableIterator<any>) => {
+      const events: any[] = [];
+
+      for await (const event of iterator) {
+        events.push(event.postUpdated.title);
+      }
+
+      return events;
+    };
+
+    const mockPostAuth = (options?: unknown) => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === POST_AUTH_VOTER_METADATA) {
+          return [{ staticMethod: (context: VoterContext) => context.data.postUpdated.authorId === context.auth.id }];
+        }
+
+        if (key === VOTER_OPTIONS_METADATA) {
+          return options;
+        }
+
+        return undefined;
+      });
+    };
+
+    it('should drop events the subscriber may not see', async () => {
+      mockPostAuth();
+
+      const result$ = await interceptor.intercept(createSubscriptionContext(), createMockCallHandler(publish()));
+
+      await expect(collect(await lastValueFrom(result$))).resolves.toEqual(['First', 'Third']);
+    });
+
+    it('should terminate the subscription on denial when configured', async () => {
+      mockPostAuth({ eventDenial: 'close' });
+
+      const result$ = await interceptor.intercept(createSubscriptionContext(), createMockCallHandler(publish()));
+
+      await expect(collect(await lastValueFrom(result$))).resolves.toEqual(['First']);
+    });
+
+    it('should filter every event with @PostAuthFilter', async () => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) =>
+        key === POST_AUTH_FILTER_METADATA
+          ? [{ staticMethod: (context: VoterContext) => context.data.postUpdated.authorId === context.auth.id }]
+          : undefined,
+      );
+
+      const result$ = await interceptor.intercept(createSubscriptionContext(), createMockCallHandler(publish()));
+
+      await expect(collect(await lastValueFrom(result$))).resolves.toEqual(['First', 'Third']);
+    });
+  });
+
+  describe('Server-sent events', () => {
+    const events = [
+      { data: { ownerId: 'user1', value: 1 } },
+      { data: { ownerId: 'user2', value: 2 } },
+      { data: { ownerId: 'user1', value: 3 } },
+    ];
+
+    const mockSse = (staticMethod: unknown, options?: unknown) => {
+      jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
+        if (key === POST_AUTH_VOTER_METADATA) {
+          return [{ staticMethod }];
+        }
+
+        if (key === SSE_METADATA) {
+          return true;
+        }
+
+        if (key === VOTER_OPTIONS_METADATA) {
+          return options;
+        }
+
+        return undefined;
+      });
+    };
+
+    const vote = (context: VoterContext) => context.data.data.ownerId === context.auth.id;
+
+    it('should vote on every event and drop denied ones', async () => {
+      const staticMethod = jest.fn(vote);
+      mockSse(staticMethod);
+
+      const next = { handle: jest.fn().mockReturnValue(from(events)) };
+      const result$ = await interceptor.intercept(createMockContext(), next);
+
+      await expect(lastValueFrom(result$.pipe(toArray()))).resolves.toEqual([events[0], events[2]]);
+      expect(staticMethod.mock.calls.map(([context]) => context.eventIndex)).toEqual([0, 1, 2]);
+    });
+
+    it('should close the stream on the first denied event when configured', async () => {
+      mockSse(vote, { eventDenial: 'close' });
+
+      const next = { handle: jest.fn().mockReturnValue(from(events)) };
+      const result$ = await interceptor.intercept(createMockContext(), next);
+
+      await expect(lastValueFrom(result$.pipe(toArray()))).resolves.toEqual([events[0]]);
+    });
+
+    it('should filter every event with @PostAuthFilter', async () => {
+      const owned = (context: VoterContext) => (context.data.data ?? context.data).ownerId === context.auth.id;
+      jest
+        .spyOn(reflector, 'get')
+        .mockImplementation((key: unknown) =>
+          key === POST_AUTH_FILTER_METADATA ? [{ staticMethod: owned }] : key === SSE_METADATA ? true : undefined,
+        );
+
+      const sse$ = await interceptor.intercept(createMockContext(), { handle: () => from(events) });
+
+      await expect(lastValueFrom(sse$.pipe(toArray()))).resolves.toEqual([events[0], events[2]]);
+
+      const collections$ = await interceptor.intercept(createMockContext(), {
+        handle: () => of(events.map((event) => event.data)),
+      });
+
+      await expect(lastValueFrom(collections$.pipe(toArray()))).resolves.toEqual([[events[0].data, events[2].data]]);
+    });
+  });
+
   describe('Error handling', () => {
     it('should throw error when method not found in voter', async () => {
       jest.spyOn(reflector, 'get').mockImplementation((key: unknown) => {
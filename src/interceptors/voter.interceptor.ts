@@ -1,29 +1,101 @@
-import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
-import { ModuleRef, Reflector } from '@nestjs/core';
-import { Observable } from 'rxjs';
-import { mergeMap } from 'rxjs/operators';
-import { PRE_AUTH_VOTER_METADATA, POST_AUTH_VOTER_METADATA } from '../constants/voter.constants';
-import { VoterException } from '../exceptions/voter.exception';
-import { IVoter, VoterClass } from '../models/voter.interface';
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SSE_METADATA } from '@nestjs/common/constants';
+import { Observable, of } from 'rxjs';
+import { concatMap, filter, map, mergeMap, takeWhile } from 'rxjs/operators';
+import {
+  PRE_AUTH_VOTER_METADATA,
+  POST_AUTH_VOTER_METADATA,
+  POST_AUTH_FILTER_METADATA,
+  FIELD_VOTER_METADATA,
+  LOAD_RESOURCE_METADATA,
+  RESOLVED_ARGS_METADATA,
+  SKIP_VOTERS_METADATA,
+  VOTER_MODULE_OPTIONS,
+  VOTER_OPTIONS_METADATA,
+} from '../constants/voter.constants';
 import { VoterContext } from '../models/voter-context.interface';
+import { VoterClass, VoterMethodFunction } from '../models/voter.interface';
 import { PreAuthVoterMetadata } from '../decorators/pre-auth-voter.decorator';
 import { PostAuthVoterMetadata } from '../decorators/post-auth-voter.decorator';
 import { OperationType } from '../models/operation-type.enum';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { DecisionStrategy } from '../models/decision-strategy.enum';
+import {
+  EventDenial,
+  GlobalVoterMatcher,
+  VoterDecisionOptions,
+  VoterHandlerOptions,
+  VoterModuleOptions,
+} from '../models/voter-options.interface';
+import { PostAuthFilterMetadata } from '../decorators/post-auth-filter.decorator';
+import { FieldVoterMetadata } from '../decorators/vote-field.decorator';
+import { LoadResourceMetadata } from '../decorators/load-resource.decorator';
+import { setLoadedResource } from '../utils/resource-store.util';
+import { getRequestArguments, resolveMethodArguments } from '../utils/method-arguments.util';
+import { runWithResolvedArgs } from '../utils/resolved-args.util';
+import { hasRegisteredFieldVoters } from '../utils/field-voters.util';
+import { CollectionAdapter } from '../models/collection-adapter.interface';
+import { ArrayCollectionAdapter } from '../adapters/array-collection.adapter';
+import { PaginationCollectionAdapter } from '../adapters/pagination-collection.adapter';
+import {
+  AccessDecisionManager,
+  AccessDecisionResult,
+  VoterMetadata,
+} from '../services/access-decision-manager.service';
+
+interface WsClientWithUser {
+  user?: any;
+  data?: { user?: any };
+}
+
+interface GraphQLResolveInfo {
+  fieldName: string;
+  operation: { operation: string };
+  path?: GraphQLPath;
+  returnType?: unknown;
+}
+
+interface GraphQLPath {
+  prev?: GraphQLPath;
+  key: string | number;
+}
+
+interface PhaseVoters {
+  global?: VoterMetadata[];
+  voters?: VoterMetadata[];
+}
 
 interface RequestWithUser {
   user?: any;
+  method?: string;
+  url?: string;
+  route?: { path?: string };
   params?: Record<string, any>;
   query?: Record<string, any>;
   body?: Record<string, any>;
+  headers?: Record<string, any>;
 }
 
+const DEFAULT_COLLECTION_ADAPTERS: CollectionAdapter[] = [
+  new ArrayCollectionAdapter(),
+  new PaginationCollectionAdapter(),
+];
+
 @Injectable()
 export class VoterInterceptor implements NestInterceptor {
-  private readonly logger = new Logger(VoterInterceptor.name);
-
   constructor(
     private readonly reflector: Reflector,
-    private readonly moduleRef: ModuleRef,
+    private readonly accessDecisionManager: AccessDecisionManager,
+    @Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions,
   ) {}
 
   private getGqlExecutionContext(): any {
@@ -40,119 +112,611 @@ export class VoterInterceptor implements NestInterceptor {
   }
 
   async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
-    const preAuthMetadata = this.reflector.get<PreAuthVoterMetadata[]>(PRE_AUTH_VOTER_METADATA, context.getHandler());
-    const postAuthMetadata = this.reflector.get<PostAuthVoterMetadata[]>(
+    const preAuthMetadata = this.getVoterMetadata<PreAuthVoterMetadata>(
+      PRE_AUTH_VOTER_METADATA,
+      AuthorizationPhase.PRE,
+      context,
+    );
+    const postAuthMetadata = this.getVoterMetadata<PostAuthVoterMetadata>(
       POST_AUTH_VOTER_METADATA,
+      AuthorizationPhase.POST,
+      context,
+    );
+
+    const filterMetadata = this.reflector.get<PostAuthFilterMetadata[]>(
+      POST_AUTH_FILTER_METADATA,
+      context.getHandler(),
+    );
+
+    const resourceMetadata = this.reflector.get<LoadResourceMetadata | undefined>(
+      LOAD_RESOURCE_METADATA,
+      context.getHandler(),
+    );
+
+    const resolvedArgs = this.reflector.get<boolean | undefined>(RESOLVED_ARGS_METADATA, context.getHandler());
+
+    if (!preAuthMetadata && !postAuthMetadata && !filterMetadata && !resourceMetadata && !resolvedArgs) {
+      // Responses are only walked for voted fields once @VoteField has been applied somewhere
+      return hasRegisteredFieldVoters()
+        ? next.handle().pipe(concatMap((data: unknown) => this.redactUndecoratedFields(data, context)))
+        : next.handle();
+    }
+
+    const handlerOptions = this.reflector.get<VoterHandlerOptions | undefined>(
+      VOTER_OPTIONS_METADATA,
       context.getHandler(),
     );
 
-    if (!preAuthMetadata && !postAuthMetadata) {
-      return next.handle();
+    if (resolvedArgs && handlerOptions?.args) {
+      throw new Error(
+        `The args option of @VoterOptions() cannot be combined with @UseResolvedArgs() on ${context.getHandler().name}`,
+      );
+    }
+
+    const args = resolvedArgs
+      ? this.getMethodArguments(context)
+      : await resolveMethodArguments(
+          context,
+          this.getMethodArguments(context),
+          handlerOptions?.args ?? this.options?.args,
+        );
+    const voterContext = await this.createVoterContext(context, handlerOptions, args);
+
+    const decisionOptions = this.accessDecisionManager.getDecisionOptions(handlerOptions);
+    const nullOnDenial =
+      voterContext.parent !== undefined && (handlerOptions?.fieldDenial ?? this.options?.fieldDenial) === 'null';
+
+    const preAuthorize = async (): Promise<boolean> => {
+      if (resourceMetadata) {
+        voterContext.resource = await this.loadResource(resourceMetadata, voterContext.args, context);
+      }
+
+      return (
+        !preAuthMetadata ||
+        this.authorize(AuthorizationPhase.PRE, preAuthMetadata, voterContext, decisionOptions, nullOnDenial)
+      );
+    };
+
+    let handled: Observable<any>;
+    let denied = false;
+
+    if (resolvedArgs) {
+      handled = this.handleWithResolvedArgs(context, next, async (params) => {
+        voterContext.args = params;
+        denied = !(await preAuthorize());
+
+        return !denied;
+      });
+    } else if (await preAuthorize()) {
+      handled = next.handle();
+    } else {
+      return of(null);
     }
 
-    const req = this.getRequest(context);
-    const args = this.getMethodArguments(context);
-    const { methodName, operationType } = this.getMethodContext(context);
+    const eventDenial = handlerOptions?.eventDenial ?? this.options?.eventDenial ?? 'drop';
+
+    if (handlerOptions?.streaming ?? this.reflector.get<boolean | undefined>(SSE_METADATA, context.getHandler())) {
+      let eventIndex = 0;
+
+      return handled.pipe(
+        concatMap((data: unknown) =>
+          this.authorizeEvent(
+            data,
+            postAuthMetadata,
+            filterMetadata,
+            { ...voterContext, eventIndex: eventIndex++ },
+            decisionOptions,
+          ),
+        ),
+        takeWhile((event) => event.granted || eventDenial !== 'close'),
+        filter((event) => event.granted),
+        map((event) => event.data),
+      );
+    }
+
+    return handled.pipe(
+      mergeMap(async (data: unknown) => {
+        if (denied) {
+          return null;
+        }
+
+        if (voterContext.operationType === OperationType.SUBSCRIPTION && this.isAsyncIterable(data)) {
+          return this.authorizeEvents(
+            data,
+            postAuthMetadata,
+            filterMetadata,
+            voterContext,
+            decisionOptions,
+            eventDenial,
+          );
+        }
+
+        const result = filterMetadata
+          ? await this.filterData(filterMetadata, { ...voterContext, data }, decisionOptions)
+          : data;
+
+        if (
+          postAuthMetadata &&
+          !(await this.authorize(
+            AuthorizationPhase.POST,
+            postAuthMetadata,
+            { ...voterContext, data: result },
+            decisionOptions,
+            nullOnDenial,
+          ))
+        ) {
+          return null;
+        }
+
+        return this.redactFields(result, voterContext, decisionOptions, new WeakMap());
+      }),
+    );
+  }
+
+  private async createVoterContext(
+    context: ExecutionContext,
+    handlerOptions: VoterHandlerOptions | undefined,
+    args: Record<string, any>,
+  ): Promise<VoterContext> {
+    const methodContext = this.getMethodContext(context);
 
-    const voterContext: VoterContext = {
-      data: null,
+    return {
+      data: methodContext.parent ?? null,
       args,
-      auth: req.user, // eslint-disable-line @typescript-eslint/no-unsafe-assignment
+      auth: await this.resolvePrincipal(context, handlerOptions),
       context,
-      methodName,
-      operationType,
+      ...methodContext,
     };
+  }
+
+  private async redactUndecoratedFields(data: unknown, context: ExecutionContext): Promise<unknown> {
+    if (!this.hasFieldVoters(data, new WeakSet())) {
+      return data;
+    }
+
+    const handlerOptions = this.reflector.get<VoterHandlerOptions | undefined>(
+      VOTER_OPTIONS_METADATA,
+      context.getHandler(),
+    );
+    const args = await resolveMethodArguments(
+      context,
+      this.getMethodArguments(context),
+      handlerOptions?.args ?? this.options?.args,
+    );
+
+    return this.redactFields(
+      data,
+      await this.createVoterContext(context, handlerOptions, args),
+      this.accessDecisionManager.getDecisionOptions(handlerOptions),
+      new WeakMap(),
+    );
+  }
+
+  private hasFieldVoters(value: unknown, visited: WeakSet<object>): boolean {
+    if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value) || visited.has(value)) {
+      return false;
+    }
+
+    visited.add(value);
+
+    return (
+      Reflect.hasMetadata(FIELD_VOTER_METADATA, value) ||
+      Object.values(value).some((item) => this.hasFieldVoters(item, visited))
+    );
+  }
+
+  private handleWithResolvedArgs(
+    context: ExecutionContext,
+    next: CallHandler,
+    authorize: (args: Record<string, unknown>) => Promise<boolean>,
+  ): Observable<any> {
+    return new Observable((subscriber) =>
+      runWithResolvedArgs(context, authorize, () => next.handle().subscribe(subscriber)),
+    );
+  }
+
+  private getVoterMetadata<T extends VoterMetadata>(
+    key: symbol,
+    phase: AuthorizationPhase,
+    context: ExecutionContext,
+  ): PhaseVoters | undefined {
+    // Class voters guard the operations of a resolver, not every field it resolves
+    const classRef = this.isFieldResolver(context) ? undefined : context.getClass();
+    const skipped = this.reflector.get<unknown[] | undefined>(SKIP_VOTERS_METADATA, context.getHandler());
+    const classMetadata = (classRef && this.reflector.get<T[] | undefined>(key, classRef)) || [];
+    const handlerMetadata = this.reflector.get<T[] | undefined>(key, context.getHandler()) || [];
+
+    const isSkipped = (meta: VoterMetadata) =>
+      !!skipped &&
+      (skipped.length === 0 || skipped.includes(meta.voterClass) || skipped.includes(meta.staticMethod));
+    const global = this.getGlobalVoterMetadata(phase, context).filter((meta) => !isSkipped(meta));
+    const voters = [...classMetadata.filter((meta) => !isSkipped(meta)), ...handlerMetadata];
+
+    if (global.length === 0 && voters.length === 0) {
+      return undefined;
+    }
+
+    return { global: global.length > 0 ? global : undefined, voters: voters.length > 0 ? voters : undefined };
+  }
 
-    if (preAuthMetadata) {
-      await this.executePreAuthVoters(preAuthMetadata, voterContext);
+  private getGlobalVoterMetadata(phase: AuthorizationPhase, context: ExecutionContext): VoterMetadata[] {
+    const globalVoters = (this.options?.globalVoters ?? []).filter(
+      (globalVoter) => (globalVoter.phase ?? AuthorizationPhase.PRE) === phase,
+    );
+
+    if (globalVoters.length === 0 || this.isFieldResolver(context)) {
+      return [];
     }
 
-    if (postAuthMetadata) {
-      return next.handle().pipe(
-        mergeMap(async (data: unknown) => {
-          voterContext.data = data;
-          await this.executePostAuthVoters(postAuthMetadata, voterContext);
-          return data;
-        }),
+    const { operationType } = this.getMethodContext(context);
+
+    return globalVoters
+      .filter(({ match = {} }) =>
+        (Array.isArray(match) ? match : [match]).some((matcher) =>
+          this.matchesGlobalVoter(matcher, operationType, context),
+        ),
+      )
+      .map(({ voter, methodName, exceptionFactory, hideExistence, attributes }) =>
+        voter.prototype
+          ? {
+              voterClass: voter as VoterClass,
+              methodName: methodName ?? 'vote',
+              exceptionFactory,
+              hideExistence,
+              attributes,
+            }
+          : { staticMethod: voter as VoterMethodFunction, exceptionFactory, hideExistence, attributes },
       );
+  }
+
+  private isFieldResolver(context: ExecutionContext): boolean {
+    return context.getType<string>() === 'graphql' && this.getMethodContext(context).parent !== undefined;
+  }
+
+  private matchesGlobalVoter(
+    matcher: GlobalVoterMatcher,
+    operationType: OperationType,
+    context: ExecutionContext,
+  ): boolean {
+    if (matcher.operationTypes && !matcher.operationTypes.includes(operationType)) {
+      return false;
     }
 
-    return next.handle();
+    if (matcher.httpMethods || matcher.routes) {
+      if (operationType !== OperationType.HTTP) {
+        return false;
+      }
+
+      const request = context.switchToHttp().getRequest<RequestWithUser>();
+      const method = request.method?.toUpperCase() ?? '';
+      const route = request.route?.path ?? request.url?.split('?')[0] ?? '';
+
+      if (matcher.httpMethods && !matcher.httpMethods.some((httpMethod) => httpMethod.toUpperCase() === method)) {
+        return false;
+      }
+
+      if (matcher.routes && !matcher.routes.some((pattern) => this.matchesRoute(pattern, route))) {
+        return false;
+      }
+    }
+
+    return !matcher.when || matcher.when(context);
   }
 
-  private async executePreAuthVoters(metadata: PreAuthVoterMetadata[], context: VoterContext): Promise<void> {
-    for (const meta of metadata) {
-      if (meta.staticMethod) {
-        const hasAccess = await meta.staticMethod(context);
+  private matchesRoute(pattern: string | RegExp, route: string): boolean {
+    if (pattern instanceof RegExp) {
+      return pattern.test(route);
+    }
 
-        if (!hasAccess) {
-          throw new VoterException('Pre-authorization access denied');
-        }
-      } else if (meta.voterClass) {
-        const voter = await this.getVoterInstance(meta.voterClass);
-        const methodName = meta.methodName || 'vote';
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
 
-        if (!(methodName in voter)) {
-          throw new Error(`Method ${methodName} not found in ${meta.voterClass.name}`);
-        }
+    return new RegExp(`^${source}$`).test(route);
+  }
+
+  private authorizeEvents(
+    iterable: AsyncIterator<unknown> | AsyncIterable<unknown>,
+    metadata: PhaseVoters | undefined,
+    filterMetadata: PostAuthFilterMetadata[] | undefined,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+    eventDenial: EventDenial,
+  ): AsyncIterableIterator<unknown> {
+    const source = Symbol.asyncIterator in iterable ? iterable[Symbol.asyncIterator]() : iterable;
+    let eventIndex = 0;
+
+    const close = async (value?: unknown): Promise<IteratorResult<unknown>> => {
+      if (source.return) {
+        return source.return(value);
+      }
 
-        const method = voter[methodName as keyof IVoter];
+      return { done: true, value };
+    };
 
-        if (typeof method !== 'function') {
-          throw new TypeError(`${methodName} is not a function in ${meta.voterClass.name}`);
+    return {
+      next: async () => {
+        for (;;) {
+          const result = await source.next();
+
+          if (result.done) {
+            return result;
+          }
+
+          const event = await this.authorizeEvent(
+            result.value,
+            metadata,
+            filterMetadata,
+            { ...context, eventIndex: eventIndex++ },
+            options,
+          );
+
+          if (event.granted) {
+            return { done: false, value: event.data };
+          }
+
+          if (eventDenial === 'close') {
+            await close();
+            return { done: true, value: undefined };
+          }
         }
+      },
+      return: close,
+      throw: async (error?: unknown) => {
+        if (source.throw) {
+          return source.throw(error);
+        }
+
+        throw error;
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
 
-        const hasAccess = await (method as (context: VoterContext) => Promise<boolean>).call(voter, context);
+  private async authorizeEvent(
+    event: unknown,
+    metadata: PhaseVoters | undefined,
+    filterMetadata: PostAuthFilterMetadata[] | undefined,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+  ): Promise<{ granted: boolean; data: unknown }> {
+    const data = filterMetadata ? await this.filterData(filterMetadata, { ...context, data: event }, options) : event;
+
+    // Events that are not collections are filtered as a whole, a denied one is handled like a denial
+    if (data === null && event !== null) {
+      return { granted: false, data: event };
+    }
 
-        if (!hasAccess) {
-          throw new VoterException(`Pre-authorization denied by ${meta.voterClass.name}.${methodName}`);
-        }
+    if (metadata) {
+      const { granted } = await this.decide(AuthorizationPhase.POST, metadata, { ...context, data }, options);
+
+      if (!granted) {
+        return { granted, data };
       }
     }
+
+    return { granted: true, data: await this.redactFields(data, context, options, new WeakMap()) };
   }
 
-  private async executePostAuthVoters(metadata: PostAuthVoterMetadata[], context: VoterContext): Promise<void> {
-    for (const meta of metadata) {
-      if (meta.staticMethod) {
-        const hasAccess = await meta.staticMethod(context);
+  private isAsyncIterable(data: unknown): data is AsyncIterator<unknown> | AsyncIterable<unknown> {
+    return (
+      typeof data === 'object' &&
+      data !== null &&
+      (Symbol.asyncIterator in data || typeof (data as AsyncIterator<unknown>).next === 'function')
+    );
+  }
 
-        if (!hasAccess) {
-          throw new VoterException('Post-authorization access denied');
-        }
-      } else if (meta.voterClass) {
-        const voter = await this.getVoterInstance(meta.voterClass);
+  private async authorize(
+    phase: AuthorizationPhase,
+    metadata: PhaseVoters,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+    nullOnDenial: boolean,
+  ): Promise<boolean> {
+    const result = await this.decide(phase, metadata, context, options);
+
+    if (result.granted || !result.denial || nullOnDenial) {
+      return result.granted;
+    }
 
-        if (voter.supports && !voter.supports(context.data)) {
-          continue;
-        }
+    const denialOptions = this.accessDecisionManager.getDenialOptions(result, options);
 
-        const methodName = meta.methodName || 'vote';
+    if (!denialOptions.exceptionFactory && denialOptions.hideExistence && context.context.getType<string>() === 'graphql') {
+      return false;
+    }
 
-        if (!(methodName in voter)) {
-          throw new Error(`Method ${methodName} not found in ${meta.voterClass.name}`);
-        }
+    throw this.accessDecisionManager.createException(result.denial, context.context, denialOptions);
+  }
 
-        const method = voter[methodName as keyof IVoter];
+  private async decide(
+    phase: AuthorizationPhase,
+    { global, voters }: PhaseVoters,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+  ): Promise<AccessDecisionResult> {
+    // Global voters must pass on their own, otherwise the handler strategy could let them outvote the handler voters
+    if (global) {
+      const result = await this.accessDecisionManager.decide(phase, global, context, {
+        ...options,
+        strategy: DecisionStrategy.UNANIMOUS,
+        allowIfAllAbstain: true,
+      });
+
+      if (!result.granted || !voters) {
+        return result;
+      }
+    }
 
-        if (typeof method !== 'function') {
-          throw new TypeError(`${methodName} is not a function in ${meta.voterClass.name}`);
-        }
+    return voters ? this.accessDecisionManager.decide(phase, voters, context, options) : { granted: true };
+  }
 
-        const hasAccess = await (method as (context: VoterContext) => Promise<boolean>).call(voter, context);
+  private async filterData(
+    metadata: PostAuthFilterMetadata[],
+    context: VoterContext,
+    options: VoterDecisionOptions,
+  ): Promise<unknown> {
+    const isGranted = async (item: unknown) =>
+      (await this.accessDecisionManager.decide(AuthorizationPhase.POST, metadata, { ...context, data: item }, options))
+        .granted;
+
+    const adapters = [
+      ...metadata.flatMap((meta) => (meta.adapter ? [meta.adapter] : [])),
+      ...(this.options?.collectionAdapters ?? DEFAULT_COLLECTION_ADAPTERS),
+    ];
+    const adapter = adapters.find((candidate) => candidate.supports(context.data));
+
+    if (!adapter) {
+      return (await isGranted(context.data)) ? context.data : null;
+    }
 
-        if (!hasAccess) {
-          throw new VoterException(`Post-authorization denied by ${meta.voterClass.name}.${methodName}`);
-        }
+    const items = adapter.getItems(context.data);
+    const grantedItems: unknown[] = [];
+
+    for (const item of items) {
+      if (await isGranted(item)) {
+        grantedItems.push(item);
       }
     }
+
+    return adapter.setItems(context.data, grantedItems, items.length - grantedItems.length);
   }
 
-  private async getVoterInstance<T>(voterClass: VoterClass<T>): Promise<T> {
-    try {
-      return this.moduleRef.get(voterClass, { strict: false });
-    } catch {
-      return new voterClass();
+  private async redactFields(
+    value: unknown,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+    redacted: WeakMap<object, unknown>,
+  ): Promise<unknown> {
+    if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value)) {
+      return value;
+    }
+
+    if (redacted.has(value)) {
+      return redacted.get(value);
+    }
+
+    redacted.set(value, value);
+
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+
+      for (const item of value) {
+        items.push(await this.redactFields(item, context, options, redacted));
+      }
+
+      const result = items.some((item, index) => item !== value[index]) ? items : value;
+      redacted.set(value, result);
+
+      return result;
+    }
+
+    const source = value as Record<string, unknown>;
+    const fieldVoters = (Reflect.getMetadata(FIELD_VOTER_METADATA, source) as FieldVoterMetadata[] | undefined) || [];
+    let result = source;
+
+    const update = (key: string, fieldValue?: unknown, omit = false) => {
+      if (result === source) {
+        result = Object.assign(Object.create(Object.getPrototypeOf(source) as object | null) as object, source);
+      }
+
+      if (omit) {
+        delete result[key];
+      } else {
+        result[key] = fieldValue;
+      }
+    };
+
+    for (const propertyKey of new Set(fieldVoters.map((meta) => meta.propertyKey))) {
+      if (!(propertyKey in source)) {
+        continue;
+      }
+
+      const metadata = fieldVoters.filter((meta) => meta.propertyKey === propertyKey);
+      const { granted } = await this.accessDecisionManager.decide(
+        AuthorizationPhase.POST,
+        metadata,
+        { ...context, data: source },
+        options,
+      );
+
+      if (!granted) {
+        update(propertyKey, null, metadata.some((meta) => meta.redaction === 'omit'));
+      }
+    }
+
+    for (const key of Object.keys(result)) {
+      const fieldValue = result[key];
+      const redactedValue = await this.redactFields(fieldValue, context, options, redacted);
+
+      if (redactedValue !== fieldValue) {
+        update(key, redactedValue);
+      }
+    }
+
+    redacted.set(value, result);
+
+    return result;
+  }
+
+  private async loadResource(
+    metadata: LoadResourceMetadata,
+    args: Record<string, any>,
+    context: ExecutionContext,
+  ): Promise<unknown> {
+    const service = (await this.accessDecisionManager.getVoterInstance(metadata.serviceClass)) as Record<
+      string,
+      (key: unknown) => unknown
+    >;
+    const from = metadata.from ?? 'id';
+    const key = typeof from === 'function' ? from(args, context) : args[from];
+    const resource = await service[metadata.methodName](key);
+
+    if (resource === null || resource === undefined) {
+      throw typeof metadata.notFound === 'function'
+        ? metadata.notFound(context)
+        : new NotFoundException(metadata.notFound);
+    }
+
+    setLoadedResource(context, resource);
+
+    return resource;
+  }
+
+  private async resolvePrincipal(context: ExecutionContext, handlerOptions?: VoterHandlerOptions): Promise<unknown> {
+    const resolverType = handlerOptions?.principalResolver ?? this.options?.principalResolver;
+
+    if (resolverType) {
+      const resolver =
+        typeof resolverType === 'function'
+          ? await this.accessDecisionManager.getVoterInstance(resolverType)
+          : resolverType;
+
+      return resolver.resolve(context);
+    }
+
+    if (this.options?.userExtractor) {
+      return this.options.userExtractor(context);
+    }
+
+    return this.getDefaultPrincipal(context);
+  }
+
+  private getDefaultPrincipal(context: ExecutionContext): unknown {
+    const contextType = context.getType<OperationType>();
+
+    if (contextType === OperationType.WS) {
+      const client = context.switchToWs().getClient<WsClientWithUser | undefined>();
+      return client?.data?.user ?? client?.user;
+    }
+
+    if (contextType === OperationType.RPC) {
+      return context.switchToRpc().getContext<{ user?: any } | undefined>()?.user;
     }
+
+    return this.getRequest(context).user;
   }
 
   private getRequest(context: ExecutionContext): RequestWithUser {
@@ -168,40 +732,39 @@ export class VoterInterceptor implements NestInterceptor {
   }
 
   private getMethodArguments(context: ExecutionContext): Record<string, any> {
-    const contextType = context.getType<'http' | 'graphql'>();
+    const contextType = context.getType<OperationType>();
 
-    if (contextType === 'http') {
-      const request = context.switchToHttp().getRequest<RequestWithUser>();
-      return {
-        ...request.params,
-        ...request.query,
-        ...request.body,
-      };
+    if (contextType === OperationType.WS) {
+      return context.switchToWs().getData<Record<string, any>>();
+    }
+
+    if (contextType === OperationType.RPC) {
+      return context.switchToRpc().getData<Record<string, any>>();
+    }
+
+    if (contextType === OperationType.HTTP) {
+      return getRequestArguments(context.switchToHttp().getRequest<RequestWithUser>());
     }
 
     const GqlExecutionContext = this.getGqlExecutionContext();
     return GqlExecutionContext.create(context).getArgs();
   }
 
-  private getMethodContext(context: ExecutionContext): {
-    methodName: string;
-    operationType: OperationType;
-  } {
+  private getMethodContext(
+    context: ExecutionContext,
+  ): Pick<VoterContext, 'methodName' | 'operationType' | 'parent' | 'info' | 'path' | 'returnType'> {
     const contextType = context.getType<OperationType>();
 
-    if (contextType === OperationType.HTTP) {
+    if (contextType === OperationType.HTTP || contextType === OperationType.WS || contextType === OperationType.RPC) {
       return {
         methodName: context.getHandler().name,
-        operationType: OperationType.HTTP,
+        operationType: contextType,
       };
     }
 
     const GqlExecutionContext = this.getGqlExecutionContext();
     const gqlContext = GqlExecutionContext.create(context);
-    const info = (gqlContext.getInfo as any)() as {
-      fieldName: string;
-      operation: { operation: string };
-    };
+    const info = gqlContext.getInfo() as GraphQLResolveInfo;
 
     const operationType = info.operation.operation as OperationType;
 
@@ -213,9 +776,19 @@ export class VoterInterceptor implements NestInterceptor {
       throw new Error(`Unknown GraphQL operation type: ${operationType}`);
     }
 
+    const path: Array<string | number> = [];
+
+    for (let segment = info.path; segment; segment = segment.prev) {
+      path.unshift(segment.key);
+    }
+
     return {
       methodName: info.fieldName,
       operationType: operationType,
+      parent: info.path?.prev ? gqlContext.getRoot() : undefined,
+      info,
+      path,
+      returnType: info.returnType ? String(info.returnType) : undefined,
     };
   }
 }
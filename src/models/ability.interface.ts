@@ -0,0 +1,25 @@
+import { VoterClass } from './voter.interface';
+import { Ability } from '../abilities/ability';
+
+export type AbilityConditions = Record<string, unknown>;
+
+export interface AbilityRule {
+  action: string | string[];
+  subject: string | string[];
+  conditions?: AbilityConditions;
+  inverted?: boolean;
+}
+
+export interface AbilityFactory<TUser = any> {
+  createForUser(auth: TUser): Promise<Ability> | Ability;
+}
+
+export type AbilityFactoryType = VoterClass<AbilityFactory> | AbilityFactory;
+
+export type AbilitySource = 'data' | 'args' | 'resource' | 'none';
+
+export interface AbilityCheck {
+  action: string;
+  subject: string;
+  source?: AbilitySource;
+}
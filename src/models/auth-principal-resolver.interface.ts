@@ -0,0 +1,8 @@
+import { ExecutionContext } from '@nestjs/common';
+import { VoterClass } from './voter.interface';
+
+export interface AuthPrincipalResolver<TUser = any> {
+  resolve(context: ExecutionContext): Promise<TUser> | TUser;
+}
+
+export type AuthPrincipalResolverType = VoterClass<AuthPrincipalResolver> | AuthPrincipalResolver;
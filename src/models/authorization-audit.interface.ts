@@ -0,0 +1,30 @@
+import { AuthorizationPhase } from './authorization-phase.enum';
+import { DecisionStrategy } from './decision-strategy.enum';
+import { VoteResult } from './vote-result.enum';
+import { VoterDenial } from './voter-denial.interface';
+import { VoterClass } from './voter.interface';
+
+export interface AuthorizationVoteRecord {
+  voter: string;
+  vote: VoteResult;
+  duration: number;
+  code?: string;
+}
+
+export interface AuthorizationAuditEvent {
+  phase: AuthorizationPhase;
+  granted: boolean;
+  handler: string;
+  principal: unknown;
+  strategy: DecisionStrategy;
+  votes: AuthorizationVoteRecord[];
+  duration: number;
+  timestamp: Date;
+  denial?: VoterDenial;
+}
+
+export interface AuthorizationAuditSink {
+  record(event: AuthorizationAuditEvent): Promise<void> | void;
+}
+
+export type AuthorizationAuditSinkType = VoterClass<AuthorizationAuditSink> | AuthorizationAuditSink;
@@ -0,0 +1,4 @@
+export enum AuthorizationPhase {
+  PRE = 'pre',
+  POST = 'post',
+}
@@ -0,0 +1,7 @@
+export interface CollectionAdapter<TCollection = any, TItem = any> {
+  supports(data: unknown): boolean;
+
+  getItems(data: TCollection): TItem[];
+
+  setItems(data: TCollection, items: TItem[], removed: number): TCollection;
+}
@@ -0,0 +1,6 @@
+export enum DecisionStrategy {
+  AFFIRMATIVE = 'affirmative',
+  CONSENSUS = 'consensus',
+  UNANIMOUS = 'unanimous',
+  PRIORITY = 'priority',
+}
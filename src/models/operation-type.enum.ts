@@ -3,4 +3,6 @@ export enum OperationType {
   MUTATION = 'mutation',
   SUBSCRIPTION = 'subscription',
   HTTP = 'http',
+  WS = 'ws',
+  RPC = 'rpc',
 }
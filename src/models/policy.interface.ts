@@ -0,0 +1,23 @@
+export type PolicyOperand = string | number | boolean | null | PolicyOperand[];
+
+export type PolicyComparison = [PolicyOperand, PolicyOperand];
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { eq: PolicyComparison }
+  | { ne: PolicyComparison }
+  | { in: PolicyComparison }
+  | { gt: PolicyComparison }
+  | { gte: PolicyComparison }
+  | { lt: PolicyComparison }
+  | { lte: PolicyComparison }
+  | { exists: string };
+
+export interface PolicyDefinition {
+  name?: string;
+  condition: PolicyCondition;
+  code?: string;
+  reason?: string;
+}
@@ -0,0 +1,34 @@
+export enum VoteResult {
+  GRANT = 'grant',
+  DENY = 'deny',
+  ABSTAIN = 'abstain',
+}
+
+export interface DeniedVote {
+  result: VoteResult.DENY;
+  code: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export type VoteValue = boolean | VoteResult | DeniedVote;
+
+export function deny(code: string, metadata?: Record<string, any>, reason?: string): DeniedVote {
+  return { result: VoteResult.DENY, code, reason, metadata };
+}
+
+export function isDeniedVote(value: unknown): value is DeniedVote {
+  return typeof value === 'object' && value !== null && (value as DeniedVote).result === VoteResult.DENY;
+}
+
+export function toVoteResult(value: VoteValue | null | undefined): VoteResult {
+  if (value === VoteResult.GRANT || value === VoteResult.DENY || value === VoteResult.ABSTAIN) {
+    return value;
+  }
+
+  if (isDeniedVote(value)) {
+    return VoteResult.DENY;
+  }
+
+  return value ? VoteResult.GRANT : VoteResult.DENY;
+}
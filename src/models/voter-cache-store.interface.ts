@@ -0,0 +1,21 @@
+import { VoteValue } from './vote-result.enum';
+
+export interface VoterCacheEntryOptions {
+  ttl: number;
+  principal: string;
+  voter: string;
+  tags: string[];
+}
+
+export interface VoterCacheInvalidation {
+  principal?: string | number;
+  voter?: string;
+  tag?: string;
+}
+
+export interface VoterCacheStore {
+  get(key: string): Promise<VoteValue | undefined> | VoteValue | undefined;
+  set(key: string, value: VoteValue, options: VoterCacheEntryOptions): Promise<void> | void;
+  invalidate(invalidation: VoterCacheInvalidation): Promise<void> | void;
+  clear(): Promise<void> | void;
+}
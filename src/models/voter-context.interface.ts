@@ -8,4 +8,11 @@ export interface VoterContext<TUser = any, TData = any, TArgs = any> {
   context: ExecutionContext;
   methodName: string;
   operationType: OperationType;
+  parent?: any;
+  info?: any;
+  path?: Array<string | number>;
+  returnType?: string;
+  eventIndex?: number;
+  attributes?: unknown[];
+  resource?: any;
 }
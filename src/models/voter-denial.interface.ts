@@ -0,0 +1,10 @@
+import { AuthorizationPhase } from './authorization-phase.enum';
+
+export interface VoterDenial {
+  phase: AuthorizationPhase;
+  message: string;
+  voter?: string;
+  code?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
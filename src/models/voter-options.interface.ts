@@ -0,0 +1,102 @@
+import { ExecutionContext, LogLevel, ModuleMetadata, Type } from '@nestjs/common';
+import { DecisionStrategy } from './decision-strategy.enum';
+import { VoterDenial } from './voter-denial.interface';
+import { AuthPrincipalResolverType } from './auth-principal-resolver.interface';
+import { CollectionAdapter } from './collection-adapter.interface';
+import { AuthorizationAuditSinkType } from './authorization-audit.interface';
+import { VoterCacheStore } from './voter-cache-store.interface';
+import { OperationType } from './operation-type.enum';
+import { AuthorizationPhase } from './authorization-phase.enum';
+import { VoterClass, VoterMethodFunction } from './voter.interface';
+import { AbilityFactoryType } from './ability.interface';
+
+export type VoterUserExtractor = (context: ExecutionContext) => any;
+
+export type VoterPrincipalKey = (auth: any) => string | number;
+
+export type GraphQLFieldDenial = 'error' | 'null';
+
+export type EventDenial = 'drop' | 'close';
+
+export type VoterExceptionFactory = (denial: VoterDenial, context: ExecutionContext) => Error;
+
+export type VoterTimeoutBehavior = 'deny' | 'abstain' | 'error';
+
+export type VoterArgumentSource = 'params' | 'query' | 'body' | 'headers';
+
+export type VoterArgumentsExtractor = (
+  context: ExecutionContext,
+) => Record<string, any> | Promise<Record<string, any>>;
+
+export interface VoterArgumentsOptions {
+  from?: VoterArgumentSource | VoterArgumentSource[] | VoterArgumentsExtractor;
+  dto?: Type<object>;
+  validate?: boolean;
+}
+
+export interface VoterDenialOptions {
+  exceptionFactory?: VoterExceptionFactory;
+  hideExistence?: boolean;
+}
+
+export interface VoterDecoratorOptions extends VoterDenialOptions {
+  attributes?: unknown[];
+  args?: VoterArgumentsOptions;
+}
+
+export interface VoterDecisionOptions extends VoterDenialOptions {
+  strategy?: DecisionStrategy;
+  allowIfEqualGrantedDenied?: boolean;
+  allowIfAllAbstain?: boolean;
+  parallel?: boolean;
+  voterTimeout?: number;
+  onTimeout?: VoterTimeoutBehavior;
+}
+
+export interface GlobalVoterMatcher {
+  operationTypes?: OperationType[];
+  httpMethods?: string[];
+  routes?: Array<string | RegExp>;
+  when?: (context: ExecutionContext) => boolean;
+}
+
+export interface GlobalVoter extends VoterDecoratorOptions {
+  voter: VoterClass | VoterMethodFunction;
+  methodName?: string;
+  phase?: AuthorizationPhase;
+  match?: GlobalVoterMatcher | GlobalVoterMatcher[];
+}
+
+export interface VoterHandlerOptions extends VoterDecisionOptions {
+  principalResolver?: AuthPrincipalResolverType;
+  fieldDenial?: GraphQLFieldDenial;
+  eventDenial?: EventDenial;
+  streaming?: boolean;
+  args?: VoterArgumentsOptions;
+}
+
+export interface VoterModuleOptions extends VoterDecisionOptions {
+  principalResolver?: AuthPrincipalResolverType;
+  userExtractor?: VoterUserExtractor;
+  principalKey?: VoterPrincipalKey;
+  deniedMessage?: string;
+  registerInterceptor?: boolean;
+  logLevel?: LogLevel | false;
+  collectionAdapters?: CollectionAdapter[];
+  fieldDenial?: GraphQLFieldDenial;
+  eventDenial?: EventDenial;
+  auditSinks?: AuthorizationAuditSinkType[];
+  cacheStore?: VoterCacheStore;
+  globalVoters?: GlobalVoter[];
+  roleHierarchy?: Record<string, string[]>;
+  roleExtractor?: (auth: any) => string[];
+  permissionExtractor?: (auth: any) => string[];
+  abilityFactory?: AbilityFactoryType;
+  args?: VoterArgumentsOptions;
+}
+
+export interface VoterModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (...args: any[]) => Promise<VoterModuleOptions> | VoterModuleOptions;
+  inject?: any[];
+  registerInterceptor?: boolean;
+}
@@ -1,11 +1,18 @@
 import { VoterContext } from './voter-context.interface';
+import { VoteValue } from './vote-result.enum';
 
 export interface IVoter<TData = any> {
   supports?(data: TData): boolean;
 
-  vote?(context: VoterContext<any, TData, any>): Promise<boolean> | boolean;
+  vote?(context: VoterContext<any, TData, any>): Promise<VoteValue> | VoteValue;
 }
 
-export type VoterMethodFunction<TArgs = any> = (context: VoterContext<any, null, TArgs>) => Promise<boolean> | boolean;
+export type VoterMethodFunction<TArgs = any> = (
+  context: VoterContext<any, null, TArgs>,
+) => Promise<VoteValue> | VoteValue;
 
 export type VoterClass<T = any> = new (...args: any[]) => T;
+
+export type VoterMethodName<T> = {
+  [K in keyof T]: T[K] extends (context: VoterContext<any, any, any>) => Promise<VoteValue> | VoteValue ? K : never;
+}[keyof T];
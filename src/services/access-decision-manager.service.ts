@@ -0,0 +1,468 @@
+import { ExecutionContext, Inject, Injectable, Logger, NotFoundException, Optional } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { CACHEABLE_VOTER_METADATA, VOTER_CACHE_STORE, VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { VoterException } from '../exceptions/voter.exception';
+import { VoterTimeoutException } from '../exceptions/voter-timeout.exception';
+import { IVoter, VoterClass } from '../models/voter.interface';
+import { VoterContext } from '../models/voter-context.interface';
+import { PreAuthVoterMetadata } from '../decorators/pre-auth-voter.decorator';
+import { PostAuthVoterMetadata } from '../decorators/post-auth-voter.decorator';
+import { CacheableVoterOptions } from '../decorators/cacheable-voter.decorator';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { DecisionStrategy } from '../models/decision-strategy.enum';
+import {
+  VoterDecisionOptions,
+  VoterDenialOptions,
+  VoterHandlerOptions,
+  VoterModuleOptions,
+} from '../models/voter-options.interface';
+import { AccessDecision } from '../strategies/access-decision';
+import { AuthorizationVoteRecord } from '../models/authorization-audit.interface';
+import { VoterCacheStore } from '../models/voter-cache-store.interface';
+import { AuthorizationAuditor } from './authorization-auditor.service';
+import { getRequestScope } from '../utils/request-scope.util';
+import { resolveMethodArguments } from '../utils/method-arguments.util';
+import { VoterDenial } from '../models/voter-denial.interface';
+import { DeniedVote, deny, isDeniedVote, toVoteResult, VoteResult, VoteValue } from '../models/vote-result.enum';
+
+export type VoterMetadata = PreAuthVoterMetadata | PostAuthVoterMetadata;
+
+interface CastVote {
+  meta: VoterMetadata;
+  value: VoteValue;
+  duration: number;
+}
+
+const TIMED_OUT = Symbol('TIMED_OUT');
+
+export interface AccessDecisionResult {
+  granted: boolean;
+  denial?: VoterDenial;
+  deniedBy?: VoterMetadata;
+}
+
+@Injectable()
+export class AccessDecisionManager {
+  private readonly logger = new Logger(AccessDecisionManager.name);
+  private readonly requestCaches = new WeakMap<object, Map<string, Promise<VoteValue>>>();
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    @Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions,
+    @Optional() private readonly auditor?: AuthorizationAuditor,
+    @Optional() @Inject(VOTER_CACHE_STORE) private readonly cacheStore?: VoterCacheStore,
+  ) {}
+
+  async decide(
+    phase: AuthorizationPhase,
+    metadata: VoterMetadata[],
+    context: VoterContext,
+    options: VoterDecisionOptions = this.getDecisionOptions(),
+  ): Promise<AccessDecisionResult> {
+    const decision = new AccessDecision(options);
+    const phaseLabel = phase === AuthorizationPhase.PRE ? 'Pre-authorization' : 'Post-authorization';
+    let deniedBy: VoterMetadata | undefined;
+    let deniedVote: DeniedVote | undefined;
+    const votes: AuthorizationVoteRecord[] = [];
+    const startedAt = performance.now();
+    const strategy = options.strategy ?? DecisionStrategy.UNANIMOUS;
+
+    const record = ({ meta, value, duration }: CastVote) => {
+      const vote = toVoteResult(value);
+      const voter = this.getVoterName(meta);
+
+      this.log(`${voter} voted ${vote} (${phase})`);
+
+      votes.push({ voter, vote, duration, code: isDeniedVote(value) ? value.code : undefined });
+
+      if (vote === VoteResult.DENY && !deniedBy) {
+        deniedBy = meta;
+      }
+
+      if (isDeniedVote(value) && !deniedVote) {
+        deniedVote = value;
+      }
+
+      decision.add(vote);
+    };
+
+    const pending = options.parallel ? metadata.map((meta) => this.castVote(phase, meta, context, options)) : [];
+
+    pending.forEach((vote) => {
+      vote.catch(() => undefined);
+    });
+
+    if (options.parallel && strategy !== DecisionStrategy.PRIORITY) {
+      const remaining = new Set(pending);
+
+      while (remaining.size > 0 && !decision.isSettled) {
+        const cast = await Promise.race([...remaining].map((vote) => vote.then((value) => ({ vote, value }))));
+        remaining.delete(cast.vote);
+        record(cast.value);
+      }
+    } else {
+      for (const [index, meta] of metadata.entries()) {
+        if (decision.isSettled) {
+          break;
+        }
+
+        record(await (pending[index] ?? this.castVote(phase, meta, context, options)));
+      }
+    }
+
+    const granted = decision.resolve();
+
+    this.log(`${phaseLabel} ${granted ? 'granted' : 'denied'} for ${this.getHandlerName(context)}`);
+
+    const result: AccessDecisionResult = granted ? { granted } : this.createDenial(phase, strategy, deniedBy, deniedVote);
+
+    if (this.auditor?.enabled) {
+      await this.auditor.record({
+        phase,
+        granted,
+        handler: this.getHandlerName(context),
+        principal: context.auth,
+        strategy,
+        votes,
+        duration: performance.now() - startedAt,
+        timestamp: new Date(),
+        denial: result.denial,
+      });
+    }
+
+    return result;
+  }
+
+  async denyUnlessGranted(
+    phase: AuthorizationPhase,
+    metadata: VoterMetadata[],
+    context: VoterContext,
+    options?: VoterDecisionOptions,
+  ): Promise<void> {
+    const result = await this.decide(phase, metadata, context, options);
+
+    if (!result.granted && result.denial) {
+      throw this.createException(result.denial, context.context, this.getDenialOptions(result, options));
+    }
+  }
+
+  createException(
+    denial: VoterDenial,
+    context: ExecutionContext,
+    options: VoterDenialOptions = this.getDecisionOptions(),
+  ): Error {
+    if (options.exceptionFactory) {
+      return options.exceptionFactory(denial, context);
+    }
+
+    if (options.hideExistence) {
+      return new NotFoundException();
+    }
+
+    return new VoterException(denial.message, denial);
+  }
+
+  getDenialOptions(
+    result: AccessDecisionResult,
+    options: VoterDenialOptions = this.getDecisionOptions(),
+  ): VoterDenialOptions {
+    return {
+      exceptionFactory: result.deniedBy?.exceptionFactory ?? options.exceptionFactory,
+      hideExistence: result.deniedBy?.hideExistence ?? options.hideExistence,
+    };
+  }
+
+  getDecisionOptions(handlerOptions?: VoterHandlerOptions): VoterDecisionOptions {
+    return {
+      strategy: handlerOptions?.strategy ?? this.options?.strategy,
+      allowIfEqualGrantedDenied: handlerOptions?.allowIfEqualGrantedDenied ?? this.options?.allowIfEqualGrantedDenied,
+      allowIfAllAbstain: handlerOptions?.allowIfAllAbstain ?? this.options?.allowIfAllAbstain,
+      parallel: handlerOptions?.parallel ?? this.options?.parallel,
+      voterTimeout: handlerOptions?.voterTimeout ?? this.options?.voterTimeout,
+      onTimeout: handlerOptions?.onTimeout ?? this.options?.onTimeout,
+      exceptionFactory: handlerOptions?.exceptionFactory ?? this.options?.exceptionFactory,
+      hideExistence: handlerOptions?.hideExistence ?? this.options?.hideExistence,
+    };
+  }
+
+  async getVoterInstance<T>(voterClass: VoterClass<T>): Promise<T> {
+    try {
+      return this.moduleRef.get(voterClass, { strict: false });
+    } catch {
+      return new voterClass();
+    }
+  }
+
+  private async castVote(
+    phase: AuthorizationPhase,
+    meta: VoterMetadata,
+    context: VoterContext,
+    options: VoterDecisionOptions,
+  ): Promise<CastVote> {
+    const startedAt = performance.now();
+    const voterContext = await this.getVoterContext(meta, context);
+    const vote = this.executeCachedVoter(phase, meta, voterContext);
+    const value = options.voterTimeout === undefined ? await vote : await this.withTimeout(vote, meta, options);
+
+    return { meta, value, duration: performance.now() - startedAt };
+  }
+
+  private async getVoterContext(meta: VoterMetadata, context: VoterContext): Promise<VoterContext> {
+    const voterContext = meta.attributes ? { ...context, attributes: meta.attributes } : context;
+
+    if (!meta.args || !context.context) {
+      return voterContext;
+    }
+
+    return { ...voterContext, args: await resolveMethodArguments(context.context, context.args, meta.args) };
+  }
+
+  private async withTimeout(vote: Promise<VoteValue>, meta: VoterMetadata, options: VoterDecisionOptions) {
+    const timeout = options.voterTimeout as number;
+    let timer: NodeJS.Timeout | undefined;
+
+    const expired = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), timeout);
+    });
+
+    try {
+      const value = await Promise.race([vote, expired]);
+
+      if (value !== TIMED_OUT) {
+        return value;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    vote.catch(() => undefined);
+
+    const voter = this.getVoterName(meta);
+    const message = `${voter} timed out after ${timeout}ms`;
+
+    this.log(message);
+
+    switch (options.onTimeout ?? 'deny') {
+      case 'abstain':
+        return VoteResult.ABSTAIN;
+      case 'error':
+        throw new VoterTimeoutException(message, voter, timeout);
+      default:
+        return deny('VOTER_TIMEOUT', { voter, timeout }, message);
+    }
+  }
+
+  private executeCachedVoter(
+    phase: AuthorizationPhase,
+    meta: VoterMetadata,
+    context: VoterContext,
+  ): Promise<VoteValue> {
+    const cacheOptions = this.getCacheOptions(meta);
+    const key = cacheOptions ? this.getCacheKey(phase, meta, context, cacheOptions) : undefined;
+
+    if (!cacheOptions || key === undefined) {
+      return this.executeVoter(phase, meta, context);
+    }
+
+    const scope = context.context ? getRequestScope(context.context) : undefined;
+
+    if (!scope) {
+      return this.executeStoredVoter(phase, meta, context, key, cacheOptions);
+    }
+
+    let cache = this.requestCaches.get(scope);
+
+    if (!cache) {
+      cache = new Map();
+      this.requestCaches.set(scope, cache);
+    }
+
+    const cached = cache.get(key);
+
+    if (cached) {
+      this.debug(`Cache hit for ${this.getVoterName(meta)}`);
+      return cached;
+    }
+
+    this.debug(`Cache miss for ${this.getVoterName(meta)}`);
+
+    const vote = this.executeStoredVoter(phase, meta, context, key, cacheOptions);
+    cache.set(key, vote);
+    vote.catch(() => cache?.delete(key));
+
+    return vote;
+  }
+
+  private async executeStoredVoter(
+    phase: AuthorizationPhase,
+    meta: VoterMetadata,
+    context: VoterContext,
+    key: string,
+    options: CacheableVoterOptions,
+  ): Promise<VoteValue> {
+    if (options.ttl === undefined || !this.cacheStore) {
+      return this.executeVoter(phase, meta, context);
+    }
+
+    const voter = this.getVoterName(meta);
+    const cached = await this.cacheStore.get(key);
+
+    if (cached !== undefined) {
+      this.debug(`Cache store hit for ${voter}`);
+      return cached;
+    }
+
+    this.debug(`Cache store miss for ${voter}`);
+
+    const vote = await this.executeVoter(phase, meta, context);
+
+    await this.cacheStore.set(key, vote, {
+      ttl: options.ttl,
+      principal: this.getPrincipalId(context, options),
+      voter,
+      tags: typeof options.tags === 'function' ? options.tags(context) : options.tags ?? [],
+    });
+
+    return vote;
+  }
+
+  private getCacheOptions(meta: VoterMetadata): CacheableVoterOptions | undefined {
+    if (!meta.voterClass) {
+      return undefined;
+    }
+
+    const method = (meta.voterClass.prototype as Record<string, unknown>)[meta.methodName || 'vote'];
+    const methodOptions =
+      typeof method === 'function'
+        ? (Reflect.getMetadata(CACHEABLE_VOTER_METADATA, method) as CacheableVoterOptions | undefined)
+        : undefined;
+
+    return methodOptions ?? (Reflect.getMetadata(CACHEABLE_VOTER_METADATA, meta.voterClass) as CacheableVoterOptions);
+  }
+
+  private getCacheKey(
+    phase: AuthorizationPhase,
+    meta: VoterMetadata,
+    context: VoterContext,
+    options: CacheableVoterOptions,
+  ): string | undefined {
+    const key = options.key ? options.key(context) : { args: context.args, data: context.data };
+
+    try {
+      return JSON.stringify([
+        phase,
+        this.getVoterName(meta),
+        this.getPrincipalKey(context, options),
+        context.attributes ?? null,
+        key,
+      ]);
+    } catch {
+      this.debug(`Cache skipped for ${this.getVoterName(meta)}: key is not serializable`);
+      return undefined;
+    }
+  }
+
+  private getPrincipalKey(context: VoterContext, options: CacheableVoterOptions): unknown {
+    const principalKey = options.principalKey ?? this.options?.principalKey;
+
+    // Principals sharing an id, e.g. a user and a service account, must not share votes
+    return principalKey ? principalKey(context.auth) : context.auth ?? null;
+  }
+
+  private getPrincipalId(context: VoterContext, options: CacheableVoterOptions): string {
+    const principalKey = options.principalKey ?? this.options?.principalKey;
+    const auth = context.auth as { id?: unknown } | undefined;
+
+    return String(principalKey ? principalKey(auth) : auth?.id ?? '');
+  }
+
+  private async executeVoter(
+    phase: AuthorizationPhase,
+    meta: VoterMetadata,
+    context: VoterContext,
+  ): Promise<VoteValue> {
+    if (meta.staticMethod) {
+      return meta.staticMethod(context);
+    }
+
+    if (!meta.voterClass) {
+      return VoteResult.ABSTAIN;
+    }
+
+    const voter = (await this.getVoterInstance(meta.voterClass)) as IVoter;
+
+    if (phase === AuthorizationPhase.POST && voter.supports && !voter.supports(context.data)) {
+      return VoteResult.ABSTAIN;
+    }
+
+    const methodName = meta.methodName || 'vote';
+
+    if (!(methodName in voter)) {
+      throw new Error(`Method ${methodName} not found in ${meta.voterClass.name}`);
+    }
+
+    const method = voter[methodName as keyof IVoter];
+
+    if (typeof method !== 'function') {
+      throw new TypeError(`${methodName} is not a function in ${meta.voterClass.name}`);
+    }
+
+    return (method as (context: VoterContext) => Promise<VoteValue>).call(voter, context);
+  }
+
+  private createDenial(
+    phase: AuthorizationPhase,
+    strategy: DecisionStrategy,
+    deniedBy?: VoterMetadata,
+    deniedVote?: DeniedVote,
+  ): AccessDecisionResult {
+    const phaseLabel = phase === AuthorizationPhase.PRE ? 'Pre-authorization' : 'Post-authorization';
+    const decisive = strategy === DecisionStrategy.UNANIMOUS || strategy === DecisionStrategy.PRIORITY;
+    const voter = decisive && deniedBy?.voterClass ? this.getVoterName(deniedBy) : undefined;
+
+    const message = voter ? `${phaseLabel} denied by ${voter}` : `${phaseLabel} access denied`;
+
+    return {
+      granted: false,
+      deniedBy: decisive ? deniedBy : undefined,
+      denial: {
+        phase,
+        message: this.options?.deniedMessage ?? message,
+        voter,
+        code: deniedVote?.code,
+        reason: deniedVote?.reason,
+        metadata: deniedVote?.metadata,
+      },
+    };
+  }
+
+  private getVoterName(meta: VoterMetadata): string {
+    if (meta.voterClass) {
+      return `${meta.voterClass.name}.${meta.methodName || 'vote'}`;
+    }
+
+    return meta.staticMethod?.name || 'anonymous';
+  }
+
+  private getHandlerName(context: VoterContext): string {
+    if (!context.context) {
+      return context.methodName;
+    }
+
+    return `${context.context.getClass()?.name}.${context.context.getHandler().name}`;
+  }
+
+  private debug(message: string): void {
+    if (this.options?.logLevel) {
+      this.logger.debug(message);
+    }
+  }
+
+  private log(message: string): void {
+    const level = this.options?.logLevel;
+
+    if (level) {
+      this.logger[level](message);
+    }
+  }
+}
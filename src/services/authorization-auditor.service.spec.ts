@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { Injectable } from '@nestjs/common';
+import { firstValueFrom } from 'rxjs';
+import { AuthorizationAuditor } from './authorization-auditor.service';
+import { AuthorizationChecker } from './authorization-checker.service';
+import { AccessDecisionManager } from './access-decision-manager.service';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { InMemoryAuditSink } from '../sinks/in-memory-audit.sink';
+import { BaseVoter } from '../base/base-voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { deny, VoteResult } from '../models/vote-result.enum';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { DecisionStrategy } from '../models/decision-strategy.enum';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+import { AuthorizationAuditEvent, AuthorizationAuditSink } from '../models/authorization-audit.interface';
+
+@Injectable()
+class PostVoter extends BaseVoter {
+  async vote(): Promise<boolean> {
+    return true;
+  }
+
+  async canUpdate(context: VoterContext<any, null, { authorId: string }>) {
+    return context.args.authorId === context.auth?.id || deny('POST_NOT_OWNER', undefined, 'Not the author');
+  }
+}
+
+describe('AuthorizationAuditor', () => {
+  const createChecker = async (options: VoterModuleOptions = {}) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AccessDecisionManager,
+        AuthorizationChecker,
+        AuthorizationAuditor,
+        PostVoter,
+        { provide: VOTER_MODULE_OPTIONS, useValue: options },
+      ],
+    }).compile();
+
+    return { checker: module.get(AuthorizationChecker), auditor: module.get(AuthorizationAuditor) };
+  };
+
+  it('should be enabled by sinks or stream subscribers', async () => {
+    const { auditor } = await createChecker();
+
+    expect(auditor.enabled).toBe(false);
+
+    const subscription = auditor.decisions.subscribe();
+
+    expect(auditor.enabled).toBe(true);
+
+    subscription.unsubscribe();
+
+    expect(auditor.enabled).toBe(false);
+    expect((await createChecker({ auditSinks: [new InMemoryAuditSink()] })).auditor.enabled).toBe(true);
+  });
+
+  it('should record grants and denials in the configured sinks', async () => {
+    const sink = new InMemoryAuditSink();
+    const { checker } = await createChecker({ auditSinks: [sink] });
+    const auth = { id: 'user1' };
+
+    await checker.isGranted(PostVoter, 'canUpdate', { auth, args: { authorId: 'user1' } });
+    await checker.isGranted(PostVoter, 'canUpdate', { auth, args: { authorId: 'user2' } });
+
+    expect(sink.events).toEqual([
+      expect.objectContaining({
+        phase: AuthorizationPhase.PRE,
+        granted: true,
+        principal: auth,
+        strategy: DecisionStrategy.UNANIMOUS,
+        votes: [expect.objectContaining({ voter: 'PostVoter.canUpdate', vote: VoteResult.GRANT })],
+        denial: undefined,
+      }),
+      expect.objectContaining({
+        granted: false,
+        votes: [
+          expect.objectContaining({ voter: 'PostVoter.canUpdate', vote: VoteResult.DENY, code: 'POST_NOT_OWNER' }),
+        ],
+        denial: expect.objectContaining({ voter: 'PostVoter.canUpdate', reason: 'Not the author' }),
+      }),
+    ]);
+    expect(sink.events[0].duration).toBeGreaterThanOrEqual(0);
+    expect(sink.events[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should resolve sink classes through the container', async () => {
+    const recorded: AuthorizationAuditEvent[] = [];
+
+    class ArraySink implements AuthorizationAuditSink {
+      record(event: AuthorizationAuditEvent) {
+        recorded.push(event);
+      }
+    }
+
+    const { checker } = await createChecker({ auditSinks: [ArraySink] });
+
+    await checker.isGranted(PostVoter, { auth: { id: 'user1' } });
+
+    expect(recorded).toHaveLength(1);
+  });
+
+  it('should emit decisions on the stream', async () => {
+    const { checker, auditor } = await createChecker();
+    const decision = firstValueFrom(auditor.decisions);
+
+    await checker.isGranted(PostVoter, 'canUpdate', { auth: { id: 'user1' }, args: { authorId: 'user2' } });
+
+    await expect(decision).resolves.toEqual(expect.objectContaining({ granted: false }));
+  });
+
+  it('should not fail the decision when a sink throws', async () => {
+    const sink = { record: jest.fn().mockRejectedValue(new Error('unavailable')) };
+    const { checker } = await createChecker({ auditSinks: [sink] });
+
+    await expect(checker.isGranted(PostVoter, { auth: { id: 'user1' } })).resolves.toBe(true);
+    expect(sink.record).toHaveBeenCalled();
+  });
+
+  it('should keep the configured number of events in memory', () => {
+    const sink = new InMemoryAuditSink(2);
+
+    for (const handler of ['a', 'b', 'c']) {
+      sink.record({ handler } as AuthorizationAuditEvent);
+    }
+
+    expect(sink.events.map((event) => event.handler)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,54 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Observable, Subject } from 'rxjs';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { AuthorizationAuditEvent, AuthorizationAuditSink } from '../models/authorization-audit.interface';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+
+@Injectable()
+export class AuthorizationAuditor {
+  private readonly logger = new Logger(AuthorizationAuditor.name);
+  private readonly subject = new Subject<AuthorizationAuditEvent>();
+  private sinks?: AuthorizationAuditSink[];
+
+  readonly decisions: Observable<AuthorizationAuditEvent> = this.subject.asObservable();
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    @Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions,
+  ) {}
+
+  get enabled(): boolean {
+    return this.subject.observers.length > 0 || !!this.options?.auditSinks?.length;
+  }
+
+  async record(event: AuthorizationAuditEvent): Promise<void> {
+    this.subject.next(event);
+
+    for (const sink of this.getSinks()) {
+      try {
+        await sink.record(event);
+      } catch (error) {
+        this.logger.error(`${sink.constructor.name} failed to record decision: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private getSinks(): AuthorizationAuditSink[] {
+    if (!this.sinks) {
+      this.sinks = (this.options?.auditSinks ?? []).map((sink) => {
+        if (typeof sink !== 'function') {
+          return sink;
+        }
+
+        try {
+          return this.moduleRef.get(sink, { strict: false });
+        } catch {
+          return new sink();
+        }
+      });
+    }
+
+    return this.sinks;
+  }
+}
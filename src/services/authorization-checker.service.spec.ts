@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Injectable } from '@nestjs/common';
+import { AuthorizationChecker } from './authorization-checker.service';
+import { AccessDecisionManager } from './access-decision-manager.service';
+import { VoterException } from '../exceptions/voter.exception';
+import { BaseVoter } from '../base/base-voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoteResult } from '../models/vote-result.enum';
+import { CacheableVoter } from '../decorators/cacheable-voter.decorator';
+import { InMemoryVoterCacheStore } from '../stores/in-memory-voter-cache.store';
+import { VOTER_CACHE_STORE, VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+
+@Injectable()
+class PostVoter extends BaseVoter<{ authorId: string }> {
+  supports(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && 'authorId' in data;
+  }
+
+  async vote(context: VoterContext<any, { authorId: string }, any>): Promise<boolean> {
+    return context.data.authorId === context.auth?.id;
+  }
+
+  async canUpdate(context: VoterContext<any, null, { authorId: string }>): Promise<boolean> {
+    return context.args.authorId === context.auth?.id;
+  }
+}
+
+describe('AuthorizationChecker', () => {
+  let checker: AuthorizationChecker;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AccessDecisionManager, AuthorizationChecker, PostVoter],
+    }).compile();
+
+    checker = module.get(AuthorizationChecker);
+  });
+
+  it('should check a voter method', async () => {
+    const auth = { id: 'user1' };
+
+    await expect(checker.isGranted(PostVoter, 'canUpdate', { auth, args: { authorId: 'user1' } })).resolves.toBe(true);
+    await expect(checker.isGranted(PostVoter, 'canUpdate', { auth, args: { authorId: 'user2' } })).resolves.toBe(false);
+  });
+
+  it('should call vote when no method is given', async () => {
+    await expect(
+      checker.isGranted(PostVoter, { auth: { id: 'user1' }, data: { authorId: 'user1' } })
+    ).resolves.toBe(true);
+  });
+
+  it('should decide abstentions with the configured allowIfAllAbstain', async () => {
+    const unsupported = { auth: { id: 'user1' }, data: { title: 'Post' } };
+
+    await expect(checker.isGranted(PostVoter, unsupported)).resolves.toBe(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessDecisionManager,
+        AuthorizationChecker,
+        PostVoter,
+        { provide: VOTER_MODULE_OPTIONS, useValue: { allowIfAllAbstain: false } },
+      ],
+    }).compile();
+    const strictChecker = module.get(AuthorizationChecker);
+
+    await expect(strictChecker.isGranted(PostVoter, unsupported)).resolves.toBe(false);
+    await expect(strictChecker.denyUnlessGranted(PostVoter, unsupported)).rejects.toThrow(VoterException);
+  });
+
+  it('should check an inline voter function', async () => {
+    const voter = jest.fn().mockReturnValue(VoteResult.DENY);
+
+    await expect(checker.isGranted((context) => voter(context), { args: { id: '1' } })).resolves.toBe(false);
+    expect(voter).toHaveBeenCalledWith(expect.objectContaining({ args: { id: '1' } }));
+  });
+
+  it('should throw when access is denied', async () => {
+    await expect(
+      checker.denyUnlessGranted(PostVoter, 'canUpdate', { auth: { id: 'user1' }, args: { authorId: 'user2' } })
+    ).rejects.toThrow(new VoterException('Pre-authorization denied by PostVoter.canUpdate'));
+
+    await expect(
+      checker.denyUnlessGranted(PostVoter, 'canUpdate', { auth: { id: 'user1' }, args: { authorId: 'user1' } })
+    ).resolves.toBeUndefined();
+  });
+
+  describe('with a cache store', () => {
+    const isMember = jest.fn();
+
+    @Injectable()
+    class TeamVoter extends BaseVoter {
+      @CacheableVoter({ ttl: 60000, tags: (context) => [`team:${context.args.teamId}`] })
+      async vote(context: VoterContext<any, null, { teamId: string }>): Promise<boolean> {
+        return isMember(context.auth.id, context.args.teamId);
+      }
+    }
+
+    let store: InMemoryVoterCacheStore;
+
+    beforeEach(async () => {
+      store = new InMemoryVoterCacheStore();
+      isMember.mockReset().mockResolvedValue(true);
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [AccessDecisionManager, AuthorizationChecker, TeamVoter, { provide: VOTER_CACHE_STORE, useValue: store }],
+      }).compile();
+
+      checker = module.get(AuthorizationChecker);
+    });
+
+    it('should reuse decisions across checks until invalidated', async () => {
+      const check = (id: string) => checker.isGranted(TeamVoter, { auth: { id }, args: { teamId: 't1' } });
+
+      await check('user1');
+      await check('user1');
+      await check('user2');
+      expect(isMember).toHaveBeenCalledTimes(2);
+
+      isMember.mockResolvedValue(false);
+      store.invalidate({ tag: 'team:t1' });
+
+      await expect(check('user1')).resolves.toBe(false);
+      expect(isMember).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not serve a cached decision to another principal with the same id', async () => {
+      const check = (auth: object) => checker.isGranted(TeamVoter, { auth, args: { teamId: 't1' } });
+
+      await check({ id: 1, role: 'admin' });
+      isMember.mockResolvedValue(false);
+
+      await expect(check({ id: '1', type: 'service' })).resolves.toBe(false);
+      expect(isMember).toHaveBeenCalledTimes(2);
+
+      store.invalidate({ principal: 1 });
+      await check({ id: 1, role: 'admin' });
+      expect(isMember).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { VoterClass, VoterMethodFunction, VoterMethodName } from '../models/voter.interface';
+import { VoterContext } from '../models/voter-context.interface';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { AccessDecisionManager, VoterMetadata } from './access-decision-manager.service';
+
+export type AuthorizationCheckContext<TUser = any, TData = any, TArgs = any> = Partial<
+  VoterContext<TUser, TData, TArgs>
+>;
+
+@Injectable()
+export class AuthorizationChecker {
+  constructor(private readonly accessDecisionManager: AccessDecisionManager) {}
+
+  async isGranted<T extends object>(
+    voter: VoterClass<T> | VoterMethodFunction,
+    context?: AuthorizationCheckContext,
+  ): Promise<boolean>;
+  async isGranted<T extends object, K extends VoterMethodName<T>>(
+    voterClass: VoterClass<T>,
+    methodName: K,
+    context?: AuthorizationCheckContext,
+  ): Promise<boolean>;
+  async isGranted(
+    voter: VoterClass | VoterMethodFunction,
+    methodNameOrContext?: string | AuthorizationCheckContext,
+    context?: AuthorizationCheckContext,
+  ): Promise<boolean> {
+    const { phase, metadata, voterContext } = this.createCheck(voter, methodNameOrContext, context);
+    const { granted } = await this.accessDecisionManager.decide(phase, [metadata], voterContext);
+
+    return granted;
+  }
+
+  async denyUnlessGranted<T extends object>(
+    voter: VoterClass<T> | VoterMethodFunction,
+    context?: AuthorizationCheckContext,
+  ): Promise<void>;
+  async denyUnlessGranted<T extends object, K extends VoterMethodName<T>>(
+    voterClass: VoterClass<T>,
+    methodName: K,
+    context?: AuthorizationCheckContext,
+  ): Promise<void>;
+  async denyUnlessGranted(
+    voter: VoterClass | VoterMethodFunction,
+    methodNameOrContext?: string | AuthorizationCheckContext,
+    context?: AuthorizationCheckContext,
+  ): Promise<void> {
+    const { phase, metadata, voterContext } = this.createCheck(voter, methodNameOrContext, context);
+
+    await this.accessDecisionManager.denyUnlessGranted(phase, [metadata], voterContext);
+  }
+
+  private createCheck(
+    voter: VoterClass | VoterMethodFunction,
+    methodNameOrContext?: string | AuthorizationCheckContext,
+    context?: AuthorizationCheckContext,
+  ): { phase: AuthorizationPhase; metadata: VoterMetadata; voterContext: VoterContext } {
+    const methodName = typeof methodNameOrContext === 'string' ? methodNameOrContext : undefined;
+    const checkContext = (typeof methodNameOrContext === 'string' ? context : methodNameOrContext) || {};
+
+    const metadata: VoterMetadata = voter.prototype
+      ? { voterClass: voter as VoterClass, methodName: methodName || 'vote' }
+      : { staticMethod: voter as VoterMethodFunction };
+
+    const voterContext = {
+      data: null,
+      args: {},
+      auth: undefined,
+      methodName: methodName || voter.name,
+      ...checkContext,
+    } as VoterContext;
+
+    const phase =
+      voterContext.data === null || voterContext.data === undefined ? AuthorizationPhase.PRE : AuthorizationPhase.POST;
+
+    return { phase, metadata, voterContext };
+  }
+}
@@ -0,0 +1,61 @@
+import { Test } from '@nestjs/testing';
+import { Module } from '@nestjs/common';
+import { ResolveField, Resolver } from '@nestjs/graphql';
+import { VoterModule } from '../voter.module';
+import { PreAuthVoter } from '../decorators/pre-auth-voter.decorator';
+
+@Resolver()
+class UserFieldsResolver {
+  @ResolveField()
+  @PreAuthVoter(() => true)
+  email() {
+    return 'user@example.com';
+  }
+
+  @ResolveField()
+  name() {
+    return 'User';
+  }
+}
+
+@Resolver()
+@PreAuthVoter(() => true)
+class PostFieldsResolver {
+  @ResolveField()
+  title() {
+    return 'Title';
+  }
+}
+
+describe('FieldVoterExplorer', () => {
+  const createModule = (resolver: unknown, graphqlOptions?: object) => {
+    @Module({
+      providers: graphqlOptions ? [{ provide: 'GqlModuleOptions', useValue: graphqlOptions }] : [],
+      exports: graphqlOptions ? ['GqlModuleOptions'] : [],
+    })
+    class GraphQLOptionsModule {}
+
+    return Test.createTestingModule({
+      imports: [VoterModule.forRoot(), GraphQLOptionsModule],
+      providers: [resolver as never],
+    }).compile();
+  };
+
+  it('should fail the bootstrap when field resolvers with voters skip interceptors', async () => {
+    const module = await createModule(UserFieldsResolver, {});
+
+    await expect(module.init()).rejects.toThrow(/UserFieldsResolver\.email would never run/);
+  });
+
+  it('should accept field resolvers with interceptors enabled', async () => {
+    const module = await createModule(UserFieldsResolver, { fieldResolverEnhancers: ['interceptors'] });
+
+    await expect(module.init()).resolves.toBe(module);
+  });
+
+  it('should ignore field resolvers without method voters', async () => {
+    const module = await createModule(PostFieldsResolver, {});
+
+    await expect(module.init()).resolves.toBe(module);
+  });
+});
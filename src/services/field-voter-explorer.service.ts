@@ -0,0 +1,96 @@
+import { Injectable, OnApplicationBootstrap, Type } from '@nestjs/common';
+import { DiscoveryService, ModuleRef, Reflector } from '@nestjs/core';
+import {
+  LOAD_RESOURCE_METADATA,
+  POST_AUTH_FILTER_METADATA,
+  POST_AUTH_VOTER_METADATA,
+  PRE_AUTH_VOTER_METADATA,
+  RESOLVED_ARGS_METADATA,
+} from '../constants/voter.constants';
+
+const GRAPHQL_MODULE_OPTIONS = 'GqlModuleOptions';
+const RESOLVER_PROPERTY_METADATA = 'graphql:resolve_property';
+
+@Injectable()
+export class FieldVoterExplorer implements OnApplicationBootstrap {
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const fieldResolvers = this.getAuthorizedFieldResolvers();
+
+    if (fieldResolvers.length === 0 || this.hasFieldResolverInterceptors()) {
+      return;
+    }
+
+    throw new Error(
+      `The voters of the GraphQL field resolvers ${fieldResolvers.join(', ')} would never run. ` +
+        "Enable interceptors on field resolvers with fieldResolverEnhancers: ['interceptors'] in the GraphQLModule options.",
+    );
+  }
+
+  private getAuthorizedFieldResolvers(): string[] {
+    const fieldResolvers: string[] = [];
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const type = wrapper.metatype as Type | undefined;
+
+      if (typeof type !== 'function' || !type.prototype) {
+        continue;
+      }
+
+      for (const methodName of this.getMethodNames(type.prototype)) {
+        const handler = type.prototype[methodName];
+
+        if (this.reflector.get(RESOLVER_PROPERTY_METADATA, handler) && this.hasVoters(handler)) {
+          fieldResolvers.push(`${type.name}.${methodName}`);
+        }
+      }
+    }
+
+    return fieldResolvers;
+  }
+
+  private getMethodNames(prototype: object): string[] {
+    const methodNames = new Set<string>();
+
+    for (let current = prototype; current && current !== Object.prototype; current = Object.getPrototypeOf(current)) {
+      for (const name of Object.getOwnPropertyNames(current)) {
+        const descriptor = Object.getOwnPropertyDescriptor(current, name);
+
+        if (name !== 'constructor' && typeof descriptor?.value === 'function') {
+          methodNames.add(name);
+        }
+      }
+    }
+
+    return [...methodNames];
+  }
+
+  private hasVoters(handler: (...args: unknown[]) => unknown): boolean {
+    // Class voters are never applied to field resolvers, so only the method metadata counts
+    return [
+      PRE_AUTH_VOTER_METADATA,
+      POST_AUTH_VOTER_METADATA,
+      POST_AUTH_FILTER_METADATA,
+      LOAD_RESOURCE_METADATA,
+      RESOLVED_ARGS_METADATA,
+    ].some((key) => this.reflector.get(key, handler));
+  }
+
+  private hasFieldResolverInterceptors(): boolean {
+    let options: { fieldResolverEnhancers?: string[] };
+
+    try {
+      options = this.moduleRef.get(GRAPHQL_MODULE_OPTIONS, { strict: false });
+    } catch {
+      // Without GraphQLModule the field resolvers are never called
+      return true;
+    }
+
+    return options?.fieldResolverEnhancers?.includes('interceptors') ?? false;
+  }
+}
@@ -0,0 +1,36 @@
+import { Logger } from '@nestjs/common';
+import { AuthorizationAuditEvent, AuthorizationAuditSink } from '../models/authorization-audit.interface';
+
+export interface ConsoleAuditSinkOptions {
+  context?: string;
+  principal?: (principal: unknown) => unknown;
+}
+
+export class ConsoleAuditSink implements AuthorizationAuditSink {
+  private readonly logger: Logger;
+  private readonly principal: (principal: unknown) => unknown;
+
+  constructor(options: ConsoleAuditSinkOptions = {}) {
+    this.logger = new Logger(options.context ?? 'AuthorizationAudit');
+    this.principal = options.principal ?? ((principal) => (principal as { id?: unknown } | undefined)?.id ?? null);
+  }
+
+  record(event: AuthorizationAuditEvent): void {
+    const message = JSON.stringify({
+      phase: event.phase,
+      granted: event.granted,
+      handler: event.handler,
+      principal: this.principal(event.principal),
+      votes: event.votes,
+      duration: event.duration,
+      reason: event.denial?.reason ?? event.denial?.message,
+      code: event.denial?.code,
+    });
+
+    if (event.granted) {
+      this.logger.log(message);
+    } else {
+      this.logger.warn(message);
+    }
+  }
+}
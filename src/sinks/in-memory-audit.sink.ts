@@ -0,0 +1,19 @@
+import { AuthorizationAuditEvent, AuthorizationAuditSink } from '../models/authorization-audit.interface';
+
+export class InMemoryAuditSink implements AuthorizationAuditSink {
+  readonly events: AuthorizationAuditEvent[] = [];
+
+  constructor(private readonly limit = 1000) {}
+
+  record(event: AuthorizationAuditEvent): void {
+    this.events.push(event);
+
+    if (this.events.length > this.limit) {
+      this.events.splice(0, this.events.length - this.limit);
+    }
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
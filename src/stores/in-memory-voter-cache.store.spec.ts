@@ -0,0 +1,54 @@
+import { InMemoryVoterCacheStore } from './in-memory-voter-cache.store';
+import { VoteResult } from '../models/vote-result.enum';
+
+describe('InMemoryVoterCacheStore', () => {
+  const entry = { ttl: 1000, principal: 'user1', voter: 'TeamVoter.vote', tags: ['team:1'] };
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should expire entries after their ttl', () => {
+    jest.useFakeTimers();
+    const store = new InMemoryVoterCacheStore();
+
+    store.set('key', true, entry);
+    jest.advanceTimersByTime(999);
+    expect(store.get('key')).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    expect(store.get('key')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const store = new InMemoryVoterCacheStore({ maxSize: 2 });
+
+    store.set('a', true, entry);
+    store.set('b', false, entry);
+    store.get('a');
+    store.set('c', VoteResult.ABSTAIN, entry);
+
+    expect(store.get('a')).toBe(true);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(VoteResult.ABSTAIN);
+  });
+
+  it('should invalidate entries by principal, voter and tag', () => {
+    const store = new InMemoryVoterCacheStore();
+
+    store.set('a', true, entry);
+    store.set('b', true, { ...entry, principal: 'user2' });
+    store.set('c', true, { ...entry, voter: 'PostVoter.canUpdate', tags: ['post:1'] });
+
+    store.invalidate({ principal: 'user2' });
+    expect(store.get('b')).toBeUndefined();
+
+    store.invalidate({ voter: 'PostVoter' });
+    expect(store.get('c')).toBeUndefined();
+
+    store.invalidate({ tag: 'team:2' });
+    expect(store.get('a')).toBe(true);
+
+    store.invalidate({ tag: 'team:1' });
+    expect(store.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { VoteValue } from '../models/vote-result.enum';
+import { VoterCacheEntryOptions, VoterCacheInvalidation, VoterCacheStore } from '../models/voter-cache-store.interface';
+
+export interface InMemoryVoterCacheStoreOptions {
+  maxSize?: number;
+}
+
+interface CacheEntry {
+  value: VoteValue;
+  expiresAt: number;
+  principal: string;
+  voter: string;
+  tags: string[];
+}
+
+export class InMemoryVoterCacheStore implements VoterCacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxSize: number;
+
+  constructor(options: InMemoryVoterCacheStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 1000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): VoteValue | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  set(key: string, value: VoteValue, options: VoterCacheEntryOptions): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + options.ttl,
+      principal: options.principal,
+      voter: options.voter,
+      tags: options.tags,
+    });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) {
+        break;
+      }
+
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(invalidation: VoterCacheInvalidation): void {
+    for (const [key, entry] of this.entries) {
+      if (this.matches(entry, invalidation)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private matches(entry: CacheEntry, { principal, voter, tag }: VoterCacheInvalidation): boolean {
+    return (
+      (principal === undefined || entry.principal === String(principal)) &&
+      (voter === undefined || entry.voter === voter || entry.voter.startsWith(`${voter}.`)) &&
+      (tag === undefined || entry.tags.includes(tag))
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { DecisionStrategy } from '../models/decision-strategy.enum';
+import { VoterDecisionOptions } from '../models/voter-options.interface';
+import { VoteResult } from '../models/vote-result.enum';
+
+export class AccessDecision {
+  private readonly strategy: DecisionStrategy;
+  private readonly allowIfEqualGrantedDenied: boolean;
+  private readonly allowIfAllAbstain: boolean;
+  private granted = 0;
+  private denied = 0;
+  private settled?: boolean;
+
+  constructor(options: VoterDecisionOptions = {}) {
+    this.strategy = options.strategy ?? DecisionStrategy.UNANIMOUS;
+    this.allowIfEqualGrantedDenied = options.allowIfEqualGrantedDenied ?? true;
+    this.allowIfAllAbstain = options.allowIfAllAbstain ?? true;
+  }
+
+  get isSettled(): boolean {
+    return this.settled !== undefined;
+  }
+
+  add(vote: VoteResult): void {
+    if (this.isSettled || vote === VoteResult.ABSTAIN) {
+      return;
+    }
+
+    const granted = vote === VoteResult.GRANT;
+
+    if (granted) {
+      this.granted++;
+    } else {
+      this.denied++;
+    }
+
+    switch (this.strategy) {
+      case DecisionStrategy.AFFIRMATIVE:
+        if (granted) this.settled = true;
+        break;
+      case DecisionStrategy.UNANIMOUS:
+        if (!granted) this.settled = false;
+        break;
+      case DecisionStrategy.PRIORITY:
+        this.settled = granted;
+        break;
+      case DecisionStrategy.CONSENSUS:
+        break;
+    }
+  }
+
+  resolve(): boolean {
+    if (this.settled !== undefined) {
+      return this.settled;
+    }
+
+    if (this.granted === 0 && this.denied === 0) {
+      return this.allowIfAllAbstain;
+    }
+
+    switch (this.strategy) {
+      case DecisionStrategy.AFFIRMATIVE:
+        return this.granted > 0;
+      case DecisionStrategy.CONSENSUS:
+        if (this.granted === this.denied) {
+          return this.allowIfEqualGrantedDenied;
+        }
+
+        return this.granted > this.denied;
+      case DecisionStrategy.UNANIMOUS:
+      case DecisionStrategy.PRIORITY:
+        return this.denied === 0;
+    }
+  }
+}
@@ -0,0 +1,9 @@
+let registered = false;
+
+export function registerFieldVoter(): void {
+  registered = true;
+}
+
+export function hasRegisteredFieldVoters(): boolean {
+  return registered;
+}
@@ -0,0 +1,82 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsInt, IsString, ValidateNested } from 'class-validator';
+import { getRequestArguments, resolveMethodArguments } from './method-arguments.util';
+
+class AuthorDto {
+  @IsString()
+  name!: string;
+}
+
+class UpdatePostDto {
+  @Type(() => Number)
+  @IsInt()
+  id!: number;
+
+  @ValidateNested()
+  @Type(() => AuthorDto)
+  author!: AuthorDto;
+}
+
+describe('method arguments', () => {
+  const request = {
+    params: { id: '1' },
+    query: { id: '2', page: '3' },
+    body: { id: '4', title: 'Title' },
+    headers: { 'x-tenant': 'acme' },
+  };
+
+  const createContext = (type = 'http') =>
+    ({
+      getType: () => type,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  it('should give params precedence over query and body by default', () => {
+    expect(getRequestArguments(request)).toEqual({ id: '1', page: '3', title: 'Title' });
+  });
+
+  it('should read only the selected sources in the given order', async () => {
+    await expect(resolveMethodArguments(createContext(), {}, { from: 'body' })).resolves.toEqual({
+      id: '4',
+      title: 'Title',
+    });
+    await expect(resolveMethodArguments(createContext(), {}, { from: ['headers', 'query'] })).resolves.toEqual({
+      'x-tenant': 'acme',
+      id: '2',
+      page: '3',
+    });
+  });
+
+  it('should keep the arguments outside HTTP and use a custom extractor', async () => {
+    const args = { id: 'gql' };
+
+    await expect(resolveMethodArguments(createContext('graphql'), args, { from: 'body' })).resolves.toBe(args);
+    await expect(
+      resolveMethodArguments(createContext(), args, { from: (context) => ({ type: context.getType() }) }),
+    ).resolves.toEqual({ type: 'http' });
+  });
+
+  it('should transform the arguments into the DTO', async () => {
+    const args = await resolveMethodArguments(createContext(), { id: '7', author: { name: 'Jane' } }, {
+      dto: UpdatePostDto,
+    });
+
+    expect(args).toBeInstanceOf(UpdatePostDto);
+    expect(args).toEqual({ id: 7, author: { name: 'Jane' } });
+  });
+
+  it('should reject invalid arguments unless validation is disabled', async () => {
+    const args = { id: 'abc', author: { name: 1 } };
+
+    await expect(resolveMethodArguments(createContext(), args, { dto: UpdatePostDto })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(resolveMethodArguments(createContext(), args, { dto: UpdatePostDto })).rejects.toMatchObject({
+      response: { message: ['id must be an integer number', 'author.name must be a string'] },
+    });
+    await expect(
+      resolveMethodArguments(createContext(), args, { dto: UpdatePostDto, validate: false }),
+    ).resolves.toBeInstanceOf(UpdatePostDto);
+  });
+});
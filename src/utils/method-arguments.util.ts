@@ -0,0 +1,80 @@
+import { BadRequestException, ExecutionContext, Type } from '@nestjs/common';
+import { VoterArgumentSource, VoterArgumentsOptions } from '../models/voter-options.interface';
+
+interface ValidationError {
+  property: string;
+  constraints?: Record<string, string>;
+  children?: ValidationError[];
+}
+
+export const DEFAULT_ARGUMENT_SOURCES: VoterArgumentSource[] = ['params', 'query', 'body'];
+
+export function getRequestArguments(
+  request: Record<string, any>,
+  sources: VoterArgumentSource | VoterArgumentSource[] = DEFAULT_ARGUMENT_SOURCES,
+): Record<string, any> {
+  const args: Record<string, any> = {};
+
+  for (const source of Array.isArray(sources) ? sources : [sources]) {
+    for (const [key, value] of Object.entries(request[source] ?? {})) {
+      if (!(key in args)) {
+        args[key] = value;
+      }
+    }
+  }
+
+  return args;
+}
+
+export async function resolveMethodArguments(
+  context: ExecutionContext,
+  args: Record<string, any>,
+  options: VoterArgumentsOptions = {},
+): Promise<Record<string, any>> {
+  const { from } = options;
+  let resolved = args;
+
+  if (typeof from === 'function') {
+    resolved = await from(context);
+  } else if (from && context.getType() === 'http') {
+    resolved = getRequestArguments(context.switchToHttp().getRequest(), from);
+  }
+
+  return options.dto ? transformArguments(resolved, options.dto, options.validate ?? true) : resolved;
+}
+
+async function transformArguments(
+  args: Record<string, any>,
+  dto: Type<object>,
+  validate: boolean,
+): Promise<Record<string, any>> {
+  const { plainToInstance } = loadPackage('class-transformer');
+  const instance = plainToInstance(dto, args);
+
+  if (validate) {
+    const { validate: validateInstance } = loadPackage('class-validator');
+    const errors: ValidationError[] = await validateInstance(instance);
+
+    if (errors.length > 0) {
+      throw new BadRequestException(flattenErrors(errors));
+    }
+  }
+
+  return instance;
+}
+
+function flattenErrors(errors: ValidationError[], path = ''): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}).map((message) => `${path}${message}`),
+    ...flattenErrors(error.children ?? [], `${path}${error.property}.`),
+  ]);
+}
+
+function loadPackage(name: string): any {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(name);
+  } catch {
+    throw new Error(`Argument DTOs require ${name}. Please install it with: npm install ${name}`);
+  }
+}
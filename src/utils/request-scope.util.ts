@@ -0,0 +1,18 @@
+import { ExecutionContext } from '@nestjs/common';
+
+export function getRequestScope(context: ExecutionContext): object | undefined {
+  const type = context.getType<string>();
+  let scope: unknown;
+
+  if (type === 'graphql') {
+    scope = context.getArgs()[2];
+  } else if (type === 'ws') {
+    scope = context.switchToWs().getData();
+  } else if (type === 'rpc') {
+    scope = context.switchToRpc().getContext();
+  } else {
+    scope = context.switchToHttp().getRequest();
+  }
+
+  return typeof scope === 'object' && scope !== null ? scope : undefined;
+}
@@ -0,0 +1,62 @@
+import { ExecutionContext } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { VoterException } from '../exceptions/voter.exception';
+import { getLoadedResource } from './resource-store.util';
+
+type Handler = (...params: any[]) => unknown;
+
+interface ResolvedArgsGate {
+  context: ExecutionContext;
+  authorize: (args: Record<string, unknown>) => Promise<boolean>;
+}
+
+export interface ResolvedParameters {
+  names: Record<number, string>;
+  resourceIndexes: number[];
+}
+
+const gates = new AsyncLocalStorage<ResolvedArgsGate>();
+
+export function runWithResolvedArgs<T>(
+  context: ExecutionContext,
+  authorize: ResolvedArgsGate['authorize'],
+  callback: () => T,
+): T {
+  return gates.run({ context, authorize }, callback);
+}
+
+export async function invokeWithResolvedArgs(
+  handler: Handler,
+  params: unknown[],
+  parameters: ResolvedParameters,
+  invoke: (params: unknown[]) => unknown,
+): Promise<unknown> {
+  const gate = gates.getStore();
+
+  if (!gate || gate.context.getHandler() !== handler) {
+    throw new VoterException('Access denied', {
+      code: 'AUTHORIZATION_SKIPPED',
+      reason: `${handler.name} was called without being authorized by VoterInterceptor`,
+    });
+  }
+
+  const args: Record<string, unknown> = {};
+
+  params.forEach((value, index) => {
+    args[index] = value;
+
+    if (parameters.names[index]) {
+      args[parameters.names[index]] = value;
+    }
+  });
+
+  if (!(await gate.authorize(args))) {
+    return null;
+  }
+
+  for (const index of parameters.resourceIndexes) {
+    params[index] = getLoadedResource(gate.context);
+  }
+
+  return invoke(params);
+}
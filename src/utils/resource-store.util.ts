@@ -0,0 +1,37 @@
+import { ExecutionContext } from '@nestjs/common';
+import { getRequestScope } from './request-scope.util';
+
+const resources = new WeakMap<object, Map<unknown, unknown>>();
+
+function getResourceScope(context: ExecutionContext): object | undefined {
+  if (context.getType<string>() !== 'graphql') {
+    return getRequestScope(context);
+  }
+
+  // The GraphQL context is shared by the whole operation, the resolve info is created for every field invocation
+  const info: unknown = context.getArgs()[3];
+
+  return typeof info === 'object' && info !== null ? info : undefined;
+}
+
+export function setLoadedResource(context: ExecutionContext, resource: unknown): void {
+  const scope = getResourceScope(context);
+
+  if (!scope) {
+    return;
+  }
+
+  const handlers = resources.get(scope) ?? new Map<unknown, unknown>();
+  handlers.set(context.getHandler(), resource);
+  resources.set(scope, handlers);
+}
+
+export function getLoadedResource(context: ExecutionContext): unknown {
+  const scope = getResourceScope(context);
+
+  return scope ? resources.get(scope)?.get(context.getHandler()) : undefined;
+}
+
+export function resolveLoadedResource(data: unknown, context: ExecutionContext): unknown {
+  return getLoadedResource(context);
+}
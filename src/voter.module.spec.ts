@@ -0,0 +1,60 @@
+import { Test } from '@nestjs/testing';
+import { Injectable, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { VoterModule } from './voter.module';
+import { VoterInterceptor } from './interceptors/voter.interceptor';
+import { VOTER_MODULE_OPTIONS } from './constants/voter.constants';
+import { DecisionStrategy } from './models/decision-strategy.enum';
+
+@Injectable()
+class ConfigService {
+  get strategy(): DecisionStrategy {
+    return DecisionStrategy.CONSENSUS;
+  }
+}
+
+@Module({
+  providers: [ConfigService],
+  exports: [ConfigService],
+})
+class ConfigModule {}
+
+describe('VoterModule', () => {
+  const hasGlobalInterceptor = (providers: unknown[] = []) =>
+    providers.some((provider) => (provider as { provide?: unknown }).provide === APP_INTERCEPTOR);
+
+  it('should provide the options passed to forRoot', async () => {
+    const module = await Test.createTestingModule({
+      imports: [VoterModule.forRoot({ strategy: DecisionStrategy.AFFIRMATIVE })],
+    }).compile();
+
+    expect(module.get(VOTER_MODULE_OPTIONS)).toEqual({ strategy: DecisionStrategy.AFFIRMATIVE });
+    expect(module.get(VoterInterceptor)).toBeInstanceOf(VoterInterceptor);
+  });
+
+  it('should resolve the options of forRootAsync through the factory', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        VoterModule.forRootAsync({
+          imports: [ConfigModule],
+          inject: [ConfigService],
+          useFactory: (config: ConfigService) => ({ strategy: config.strategy }),
+        }),
+      ],
+    }).compile();
+
+    expect(module.get(VOTER_MODULE_OPTIONS)).toEqual({ strategy: DecisionStrategy.CONSENSUS });
+  });
+
+  it('should register the global interceptor by default', () => {
+    expect(hasGlobalInterceptor(VoterModule.forRoot().providers)).toBe(true);
+    expect(hasGlobalInterceptor(VoterModule.forRootAsync({ useFactory: () => ({}) }).providers)).toBe(true);
+  });
+
+  it('should not register the global interceptor when disabled', () => {
+    expect(hasGlobalInterceptor(VoterModule.forRoot({ registerInterceptor: false }).providers)).toBe(false);
+    expect(
+      hasGlobalInterceptor(VoterModule.forRootAsync({ useFactory: () => ({}), registerInterceptor: false }).providers),
+    ).toBe(false);
+  });
+});
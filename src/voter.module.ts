@@ -1,15 +1,104 @@
-import { Module, Global } from '@nestjs/common';
-import { APP_INTERCEPTOR } from '@nestjs/core';
+import { Module, Global, DynamicModule, Provider } from '@nestjs/common';
+import { APP_INTERCEPTOR, DiscoveryModule } from '@nestjs/core';
 import { VoterInterceptor } from './interceptors/voter.interceptor';
+import { VOTER_CACHE_STORE, VOTER_MODULE_OPTIONS } from './constants/voter.constants';
+import { VoterModuleAsyncOptions, VoterModuleOptions } from './models/voter-options.interface';
+import { VoterCoreModule } from './voter-core.module';
+import { AccessDecisionManager } from './services/access-decision-manager.service';
+import { AuthorizationChecker } from './services/authorization-checker.service';
+import { AuthorizationAuditor } from './services/authorization-auditor.service';
+import { FieldVoterExplorer } from './services/field-voter-explorer.service';
+import { InMemoryVoterCacheStore } from './stores/in-memory-voter-cache.store';
+import { RoleVoter } from './voters/role.voter';
+import { PermissionVoter } from './voters/permission.voter';
+import { AbilityVoter } from './voters/ability.voter';
 
 @Global()
 @Module({
+  imports: [DiscoveryModule],
   providers: [
+    AccessDecisionManager,
+    AuthorizationChecker,
+    AuthorizationAuditor,
+    FieldVoterExplorer,
+    VoterInterceptor,
+    RoleVoter,
+    PermissionVoter,
+    AbilityVoter,
+    {
+      provide: VOTER_CACHE_STORE,
+      useFactory: () => new InMemoryVoterCacheStore(),
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: VoterInterceptor,
     },
   ],
-  exports: [],
+  exports: [AccessDecisionManager, AuthorizationChecker, AuthorizationAuditor, VoterInterceptor, VOTER_CACHE_STORE],
 })
-export class VoterModule {}
+export class VoterModule {
+  static forRoot(options: VoterModuleOptions = {}): DynamicModule {
+    return VoterModule.createCoreModule(
+      {
+        provide: VOTER_MODULE_OPTIONS,
+        useValue: options,
+      },
+      options.registerInterceptor,
+    );
+  }
+
+  static forRootAsync(options: VoterModuleAsyncOptions): DynamicModule {
+    return {
+      ...VoterModule.createCoreModule(
+        {
+          provide: VOTER_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject || [],
+        },
+        options.registerInterceptor,
+      ),
+      imports: [DiscoveryModule, ...(options.imports || [])],
+    };
+  }
+
+  private static createCoreModule(optionsProvider: Provider, registerInterceptor = true): DynamicModule {
+    const providers: Provider[] = [
+      optionsProvider,
+      AccessDecisionManager,
+      AuthorizationChecker,
+      AuthorizationAuditor,
+      FieldVoterExplorer,
+      VoterInterceptor,
+      RoleVoter,
+      PermissionVoter,
+      AbilityVoter,
+      {
+        provide: VOTER_CACHE_STORE,
+        useFactory: (options: VoterModuleOptions) => options.cacheStore ?? new InMemoryVoterCacheStore(),
+        inject: [VOTER_MODULE_OPTIONS],
+      },
+    ];
+
+    if (registerInterceptor) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: VoterInterceptor,
+      });
+    }
+
+    return {
+      module: VoterCoreModule,
+      global: true,
+      imports: [DiscoveryModule],
+      providers,
+      exports: [
+        VOTER_MODULE_OPTIONS,
+        AccessDecisionManager,
+        AuthorizationChecker,
+        AuthorizationAuditor,
+        VoterInterceptor,
+        VOTER_CACHE_STORE,
+      ],
+    };
+  }
+}
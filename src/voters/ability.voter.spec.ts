@@ -0,0 +1,131 @@
+import { Test } from '@nestjs/testing';
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { AbilityVoter } from './ability.voter';
+import { AbilityBuilder } from '../abilities/ability';
+import { AbilityFactory, AbilitySource } from '../models/ability.interface';
+import { CheckAbility } from '../decorators/check-ability.decorator';
+import { AuthorizationPhase } from '../models/authorization-phase.enum';
+import { AccessDecisionManager } from '../services/access-decision-manager.service';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoteResult } from '../models/vote-result.enum';
+
+const createForUser = jest.fn();
+
+@Injectable()
+class AppAbilityFactory implements AbilityFactory<{ id: string }> {
+  createForUser(user: { id: string }) {
+    createForUser(user);
+
+    const { can, build } = new AbilityBuilder();
+    can('read', 'Post');
+    can('update', 'Post', { authorId: user.id });
+
+    return build();
+  }
+}
+
+describe('AbilityVoter', () => {
+  let voter: AbilityVoter;
+
+  beforeEach(async () => {
+    createForUser.mockReset();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AccessDecisionManager,
+        AbilityVoter,
+        AppAbilityFactory,
+        { provide: VOTER_MODULE_OPTIONS, useValue: { abilityFactory: AppAbilityFactory } },
+      ],
+    }).compile();
+
+    voter = module.get(AbilityVoter);
+  });
+
+  const createContext = (
+    request: object,
+    data: unknown,
+    source?: AbilitySource,
+    overrides: Partial<VoterContext> = {},
+  ) =>
+    ({
+      auth: { id: 'u1' },
+      data,
+      args: data,
+      attributes: [{ action: 'update', subject: 'Post', source: source ?? 'data' }],
+      ...overrides,
+      context: {
+        getType: () => 'http',
+        switchToHttp: () => ({ getRequest: () => request }),
+      } as unknown as ExecutionContext,
+    }) as VoterContext;
+
+  it('should check the ability against the data', async () => {
+    const request = {};
+
+    await expect(voter.vote(createContext(request, { authorId: 'u1' }))).resolves.toBe(VoteResult.GRANT);
+    await expect(voter.vote(createContext(request, { authorId: 'u2' }))).resolves.toEqual({
+      result: VoteResult.DENY,
+      code: 'ABILITY_DENIED',
+      metadata: { action: 'update', subject: 'Post' },
+      reason: 'Cannot update Post',
+    });
+  });
+
+  it('should check every item of a collection', async () => {
+    await expect(voter.vote(createContext({}, [{ authorId: 'u1' }, { authorId: 'u2' }]))).resolves.toEqual(
+      expect.objectContaining({ result: VoteResult.DENY }),
+    );
+  });
+
+  it('should check the subject type without an object', async () => {
+    await expect(voter.vote(createContext({}, { authorId: 'u2' }, 'none'))).resolves.toBe(VoteResult.GRANT);
+  });
+
+  it('should check the arguments before the handler runs', async () => {
+    const context = createContext({}, null, undefined, {
+      args: { authorId: 'u2' },
+      attributes: [{ action: 'update', subject: 'Post' }],
+    });
+
+    await expect(voter.vote(context)).resolves.toEqual(expect.objectContaining({ result: VoteResult.DENY }));
+  });
+
+  it('should check the loaded resource', async () => {
+    const createResourceContext = (resource: unknown) => createContext({}, null, 'resource', { resource });
+
+    await expect(voter.vote(createResourceContext({ authorId: 'u1' }))).resolves.toBe(VoteResult.GRANT);
+    await expect(voter.vote(createResourceContext({ authorId: 'u2' }))).resolves.toEqual(
+      expect.objectContaining({ result: VoteResult.DENY }),
+    );
+    await expect(voter.vote(createResourceContext(undefined))).resolves.toEqual(
+      expect.objectContaining({ result: VoteResult.DENY, reason: 'Cannot update Post without a loaded resource' }),
+    );
+  });
+
+  it('should deny without ability checks', async () => {
+    await expect(voter.vote(createContext({}, { authorId: 'u1' }, undefined, { attributes: [] }))).resolves.toEqual({
+      result: VoteResult.DENY,
+      code: 'ABILITY_DENIED',
+      reason: 'No ability checks were given to AbilityVoter',
+    });
+    expect(createForUser).not.toHaveBeenCalled();
+  });
+
+  it('should require a source for pre-authorization checks', () => {
+    expect(() => CheckAbility('update', 'Post')).toThrow(/requires a source/);
+    expect(() => CheckAbility('update', 'Post', { source: 'resource' })).not.toThrow();
+    expect(() => CheckAbility('update', 'Post', { phase: AuthorizationPhase.POST })).not.toThrow();
+  });
+
+  it('should build the ability once per request', async () => {
+    const request = {};
+
+    await voter.vote(createContext(request, { authorId: 'u1' }));
+    await voter.vote(createContext(request, { authorId: 'u1' }));
+    await voter.vote(createContext({}, { authorId: 'u1' }));
+
+    expect(createForUser).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { BaseVoter } from '../base/base-voter';
+import { Ability } from '../abilities/ability';
+import { AbilityCheck, AbilitySource } from '../models/ability.interface';
+import { VoterContext } from '../models/voter-context.interface';
+import { deny, VoteResult, VoteValue } from '../models/vote-result.enum';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+import { AccessDecisionManager } from '../services/access-decision-manager.service';
+import { getRequestScope } from '../utils/request-scope.util';
+
+@Injectable()
+export class AbilityVoter extends BaseVoter {
+  private readonly abilities = new WeakMap<object, Promise<Ability>>();
+
+  constructor(
+    private readonly accessDecisionManager: AccessDecisionManager,
+    @Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions,
+  ) {
+    super();
+  }
+
+  async vote(context: VoterContext<any, any, any>): Promise<VoteValue> {
+    const checks = (context.attributes ?? []) as AbilityCheck[];
+
+    if (checks.length === 0) {
+      return deny('ABILITY_DENIED', undefined, 'No ability checks were given to AbilityVoter');
+    }
+
+    const ability = await this.getAbility(context);
+
+    for (const { action, subject, source = this.getDefaultSource(context) } of checks) {
+      const object = source === 'none' ? undefined : context[source];
+
+      if (source === 'resource' && (object === undefined || object === null)) {
+        return deny('ABILITY_DENIED', { action, subject }, `Cannot ${action} ${subject} without a loaded resource`);
+      }
+
+      const objects = Array.isArray(object) ? object : [object];
+
+      if (!objects.every((item) => ability.can(action, subject, item))) {
+        return deny('ABILITY_DENIED', { action, subject }, `Cannot ${action} ${subject}`);
+      }
+    }
+
+    return VoteResult.GRANT;
+  }
+
+  getAbility(context: VoterContext): Promise<Ability> {
+    const scope = context.context ? getRequestScope(context.context) : undefined;
+    const cached = scope && this.abilities.get(scope);
+
+    if (cached) {
+      return cached;
+    }
+
+    const ability = this.createAbility(context.auth);
+
+    if (scope) {
+      this.abilities.set(scope, ability);
+      ability.catch(() => this.abilities.delete(scope));
+    }
+
+    return ability;
+  }
+
+  private getDefaultSource(context: VoterContext): AbilitySource {
+    return context.data === undefined || context.data === null ? 'args' : 'data';
+  }
+
+  private async createAbility(auth: unknown): Promise<Ability> {
+    const factoryType = this.options?.abilityFactory;
+
+    if (!factoryType) {
+      throw new Error('AbilityVoter requires the abilityFactory module option');
+    }
+
+    const factory =
+      typeof factoryType === 'function' ? await this.accessDecisionManager.getVoterInstance(factoryType) : factoryType;
+
+    return factory.createForUser(auth);
+  }
+}
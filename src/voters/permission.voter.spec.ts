@@ -0,0 +1,54 @@
+import { Test } from '@nestjs/testing';
+import { PermissionVoter } from './permission.voter';
+import { AccessDecisionManager } from '../services/access-decision-manager.service';
+import { AuthorizationChecker } from '../services/authorization-checker.service';
+import { VoterException } from '../exceptions/voter.exception';
+import { VoteResult } from '../models/vote-result.enum';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+
+describe('PermissionVoter', () => {
+  let checker: AuthorizationChecker;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [AccessDecisionManager, AuthorizationChecker, PermissionVoter],
+    }).compile();
+
+    checker = module.get(AuthorizationChecker);
+  });
+
+  const check = (permissions: string[], attributes: string[]) =>
+    checker.isGranted(PermissionVoter, { auth: { permissions }, attributes });
+
+  it('should require every permission', async () => {
+    await expect(check(['post:read', 'post:update'], ['post:update', 'post:read'])).resolves.toBe(true);
+    await expect(check(['post:read'], ['post:update', 'post:read'])).resolves.toBe(false);
+  });
+
+  it('should match wildcard permissions', async () => {
+    await expect(check(['post:*'], ['post:update'])).resolves.toBe(true);
+    await expect(check(['post:*'], ['post:comment:delete'])).resolves.toBe(true);
+    await expect(check(['*:read'], ['comment:read'])).resolves.toBe(true);
+    await expect(check(['*'], ['user:delete'])).resolves.toBe(true);
+    await expect(check(['post:*'], ['comment:update'])).resolves.toBe(false);
+    await expect(check(['*:read'], ['comment:update'])).resolves.toBe(false);
+  });
+
+  it('should deny without required permissions', async () => {
+    const context = { auth: { permissions: ['*'] }, attributes: [] } as never;
+
+    await expect(new PermissionVoter().vote(context)).resolves.toEqual(
+      expect.objectContaining({ result: VoteResult.DENY, code: 'PERMISSION_REQUIRED' }),
+    );
+    expect(() => RequirePermissions()).toThrow('@RequirePermissions() requires at least one permission');
+  });
+
+  it('should list the missing permissions in the denial', async () => {
+    const error = (await checker
+      .denyUnlessGranted(PermissionVoter, { auth: { permissions: ['post:read'] }, attributes: ['post:update'] })
+      .catch((exception: VoterException) => exception)) as VoterException;
+
+    expect(error.code).toBe('PERMISSION_REQUIRED');
+    expect(error.metadata).toEqual({ permissions: ['post:update'] });
+  });
+});
@@ -0,0 +1,60 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { BaseVoter } from '../base/base-voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { deny, VoteValue } from '../models/vote-result.enum';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+
+interface PrincipalWithPermissions {
+  permissions?: string[];
+}
+
+@Injectable()
+export class PermissionVoter extends BaseVoter {
+  constructor(@Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions) {
+    super();
+  }
+
+  vote(context: VoterContext<any, any, any>): Promise<VoteValue> {
+    const required = (context.attributes ?? []) as string[];
+
+    if (required.length === 0) {
+      return Promise.resolve(
+        deny('PERMISSION_REQUIRED', { permissions: required }, 'No permissions were given to PermissionVoter'),
+      );
+    }
+
+    const granted = this.getPermissions(context.auth);
+    const missing = required.filter((permission) => !granted.some((pattern) => this.matches(pattern, permission)));
+
+    return Promise.resolve(
+      missing.length === 0 ||
+        deny('PERMISSION_REQUIRED', { permissions: missing }, `Missing permissions ${missing.join(', ')}`)
+    );
+  }
+
+  matches(pattern: string, permission: string): boolean {
+    const patternSegments = pattern.split(':');
+    const permissionSegments = permission.split(':');
+
+    for (const [index, segment] of patternSegments.entries()) {
+      if (segment === '*' && index === patternSegments.length - 1) {
+        return permissionSegments.length >= patternSegments.length;
+      }
+
+      if (segment !== '*' && segment !== permissionSegments[index]) {
+        return false;
+      }
+    }
+
+    return patternSegments.length === permissionSegments.length;
+  }
+
+  private getPermissions(auth: unknown): string[] {
+    if (this.options?.permissionExtractor) {
+      return this.options.permissionExtractor(auth);
+    }
+
+    return (auth as PrincipalWithPermissions | undefined)?.permissions ?? [];
+  }
+}
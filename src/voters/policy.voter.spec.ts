@@ -0,0 +1,83 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadPolicies, policy, PolicyVoter } from './policy.voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { VoteResult } from '../models/vote-result.enum';
+import { PolicyCondition } from '../models/policy.interface';
+
+describe('PolicyVoter', () => {
+  const context = (auth: unknown, data: unknown = null, args: unknown = {}) => ({ auth, data, args }) as VoterContext;
+
+  const canEditPost = policy({
+    name: 'canEditPost',
+    code: 'POST_EDIT_DENIED',
+    condition: {
+      any: [{ eq: ['$subject.id', '$resource.authorId'] }, { in: ['$subject.role', ['admin']] }],
+    },
+  });
+
+  it('should grant when the condition holds', async () => {
+    await expect(canEditPost(context({ id: 'u1', role: 'user' }, { authorId: 'u1' }))).resolves.toBe(VoteResult.GRANT);
+    await expect(canEditPost(context({ id: 'u2', role: 'admin' }, { authorId: 'u1' }))).resolves.toBe(VoteResult.GRANT);
+  });
+
+  it('should deny with the policy code otherwise', async () => {
+    await expect(canEditPost(context({ id: 'u2', role: 'user' }, { authorId: 'u1' }))).resolves.toEqual({
+      result: VoteResult.DENY,
+      code: 'POST_EDIT_DENIED',
+      metadata: { policy: 'canEditPost' },
+    });
+  });
+
+  it('should deny without policies', async () => {
+    await expect(new PolicyVoter().vote({ ...context({ id: 'u1' }), attributes: [] })).resolves.toEqual({
+      result: VoteResult.DENY,
+      code: 'POLICY_DENIED',
+      reason: 'No policies were given to PolicyVoter',
+    });
+  });
+
+  it('should check the loaded resource before the handler runs', async () => {
+    const preAuth = (authorId: string) => ({ ...context({ id: 'u1', role: 'user' }), resource: { authorId } });
+
+    await expect(canEditPost(preAuth('u1'))).resolves.toBe(VoteResult.GRANT);
+    await expect(canEditPost(preAuth('u2'))).resolves.toEqual(expect.objectContaining({ result: VoteResult.DENY }));
+  });
+
+  it('should evaluate nested conditions against auth, args and data', () => {
+    const voter = new PolicyVoter();
+    const condition: PolicyCondition = {
+      all: [
+        { exists: '$auth.id' },
+        { not: { eq: ['$args.status', 'archived'] } },
+        { gte: ['$data.stats.views', 10] },
+        { ne: ['$data.owner.id', null] },
+      ],
+    };
+
+    expect(voter.evaluate(condition, context({ id: 'u1' }, { stats: { views: 10 }, owner: { id: 'o' } }))).toBe(true);
+    expect(voter.evaluate(condition, context({ id: 'u1' }, { stats: { views: 9 }, owner: { id: 'o' } }))).toBe(false);
+    expect(voter.evaluate(condition, context(null, { stats: { views: 10 }, owner: { id: 'o' } }))).toBe(false);
+    expect(() => voter.evaluate({ eq: ['$request.ip', '::1'] }, context(null))).toThrow(
+      'Unknown policy reference: $request.ip',
+    );
+  });
+
+  it('should load policies from a JSON file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'policies-')), 'policies.json');
+    writeFileSync(file, JSON.stringify({ isAdmin: { condition: { eq: ['$auth.role', 'admin'] } } }));
+
+    const policies = loadPolicies(file);
+
+    expect(policies.isAdmin.name).toBe('isAdmin');
+    await expect(policy(policies.isAdmin)(context({ role: 'admin' }))).resolves.toBe(VoteResult.GRANT);
+  });
+
+  it('should reject policies without a condition', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'policies-')), 'policies.json');
+    writeFileSync(file, JSON.stringify({ broken: { code: 'X' } }));
+
+    expect(() => loadPolicies(file)).toThrow('Policy "broken"');
+  });
+});
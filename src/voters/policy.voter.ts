@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { BaseVoter } from '../base/base-voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { deny, VoteResult, VoteValue } from '../models/vote-result.enum';
+import { VoterMethodFunction } from '../models/voter.interface';
+import { PolicyComparison, PolicyCondition, PolicyDefinition, PolicyOperand } from '../models/policy.interface';
+
+const ROOT_ALIASES: Record<string, 'auth' | 'args' | 'data' | 'resource'> = {
+  auth: 'auth',
+  subject: 'auth',
+  args: 'args',
+  data: 'data',
+  resource: 'resource',
+};
+
+export class PolicyVoter extends BaseVoter {
+  vote(context: VoterContext<any, any, any>): Promise<VoteValue> {
+    const policies = (context.attributes ?? []) as PolicyDefinition[];
+
+    if (policies.length === 0) {
+      return Promise.resolve(deny('POLICY_DENIED', undefined, 'No policies were given to PolicyVoter'));
+    }
+
+    for (const definition of policies) {
+      if (!this.evaluate(definition.condition, context)) {
+        const metadata = definition.name ? { policy: definition.name } : undefined;
+
+        return Promise.resolve(deny(definition.code ?? 'POLICY_DENIED', metadata, definition.reason));
+      }
+    }
+
+    return Promise.resolve(VoteResult.GRANT);
+  }
+
+  evaluate(condition: PolicyCondition, context: VoterContext): boolean {
+    if ('all' in condition) {
+      return condition.all.every((child) => this.evaluate(child, context));
+    }
+
+    if ('any' in condition) {
+      return condition.any.some((child) => this.evaluate(child, context));
+    }
+
+    if ('not' in condition) {
+      return !this.evaluate(condition.not, context);
+    }
+
+    if ('exists' in condition) {
+      const value = this.resolve(condition.exists, context);
+      return value !== undefined && value !== null;
+    }
+
+    const [operator, comparison] = Object.entries(condition)[0] as [string, PolicyComparison];
+    const left = this.resolve(comparison[0], context);
+    const right = this.resolve(comparison[1], context);
+
+    switch (operator) {
+      case 'eq':
+        return left === right;
+      case 'ne':
+        return left !== right;
+      case 'in':
+        return Array.isArray(right) && right.includes(left);
+      case 'gt':
+        return (left as number) > (right as number);
+      case 'gte':
+        return (left as number) >= (right as number);
+      case 'lt':
+        return (left as number) < (right as number);
+      case 'lte':
+        return (left as number) <= (right as number);
+      default:
+        throw new Error(`Unknown policy operator: ${operator}`);
+    }
+  }
+
+  private resolve(operand: PolicyOperand, context: VoterContext): unknown {
+    if (Array.isArray(operand)) {
+      return operand.map((item) => this.resolve(item, context));
+    }
+
+    if (typeof operand !== 'string' || !operand.startsWith('$')) {
+      return operand;
+    }
+
+    const [root, ...path] = operand.slice(1).split('.');
+
+    if (!(root in ROOT_ALIASES)) {
+      throw new Error(`Unknown policy reference: ${operand}`);
+    }
+
+    const alias = ROOT_ALIASES[root];
+
+    return path.reduce<unknown>(
+      (value, key) => (value === null || value === undefined ? undefined : (value as Record<string, unknown>)[key]),
+      alias === 'resource' ? (context.resource ?? context.data) : context[alias],
+    );
+  }
+}
+
+const policyVoter = new PolicyVoter();
+
+export function policy(definition: PolicyDefinition | PolicyCondition): VoterMethodFunction {
+  const policyDefinition = 'condition' in definition ? definition : { condition: definition };
+  const voter: VoterMethodFunction = (context) =>
+    policyVoter.vote({ ...context, attributes: [policyDefinition] } as VoterContext);
+
+  return Object.defineProperty(voter, 'name', { value: `policy:${policyDefinition.name ?? 'anonymous'}` });
+}
+
+export function loadPolicies(path: string): Record<string, PolicyDefinition> {
+  const policies = JSON.parse(readFileSync(path, 'utf8')) as Record<string, PolicyDefinition>;
+
+  for (const [name, definition] of Object.entries(policies)) {
+    if (typeof definition !== 'object' || definition === null || typeof definition.condition !== 'object') {
+      throw new Error(`Policy "${name}" in ${path} has no condition`);
+    }
+
+    definition.name ??= name;
+  }
+
+  return policies;
+}
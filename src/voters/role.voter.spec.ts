@@ -0,0 +1,69 @@
+import { Test } from '@nestjs/testing';
+import { RoleVoter } from './role.voter';
+import { AccessDecisionManager } from '../services/access-decision-manager.service';
+import { AuthorizationChecker } from '../services/authorization-checker.service';
+import { VOTER_MODULE_OPTIONS, PRE_AUTH_VOTER_METADATA } from '../constants/voter.constants';
+import { RequireRoles } from '../decorators/require-roles.decorator';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+import { VoteResult } from '../models/vote-result.enum';
+
+describe('RoleVoter', () => {
+  const createChecker = async (options: VoterModuleOptions = {}) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AccessDecisionManager,
+        AuthorizationChecker,
+        RoleVoter,
+        { provide: VOTER_MODULE_OPTIONS, useValue: options },
+      ],
+    }).compile();
+
+    return module.get(AuthorizationChecker);
+  };
+
+  const hierarchy = { admin: ['editor'], editor: ['user'] };
+
+  it('should grant when the principal has one of the roles', async () => {
+    const checker = await createChecker();
+
+    await expect(
+      checker.isGranted(RoleVoter, { auth: { roles: ['editor'] }, attributes: ['admin', 'editor'] }),
+    ).resolves.toBe(true);
+    await expect(checker.isGranted(RoleVoter, { auth: { role: 'user' }, attributes: ['editor'] })).resolves.toBe(false);
+  });
+
+  it('should grant roles reachable through the hierarchy', async () => {
+    const checker = await createChecker({ roleHierarchy: hierarchy });
+
+    await expect(checker.isGranted(RoleVoter, { auth: { role: 'admin' }, attributes: ['user'] })).resolves.toBe(true);
+    await expect(checker.isGranted(RoleVoter, { auth: { role: 'editor' }, attributes: ['admin'] })).resolves.toBe(
+      false,
+    );
+  });
+
+  it('should read roles with the configured extractor', async () => {
+    const checker = await createChecker({ roleExtractor: (auth: { user: { role: string } }) => [auth.user.role] });
+
+    await expect(
+      checker.isGranted(RoleVoter, { auth: { user: { role: 'admin' } }, attributes: ['admin'] }),
+    ).resolves.toBe(true);
+  });
+
+  it('should deny without required roles', async () => {
+    await expect(new RoleVoter().vote({ auth: { role: 'admin' }, attributes: [] } as never)).resolves.toEqual(
+      expect.objectContaining({ result: VoteResult.DENY, code: 'ROLE_REQUIRED' }),
+    );
+    expect(() => RequireRoles()).toThrow('@RequireRoles() requires at least one role');
+  });
+
+  it('should register RoleVoter with the roles as attributes', () => {
+    class PostsController {
+      @RequireRoles('editor', 'admin')
+      update() {}
+    }
+
+    expect(Reflect.getMetadata(PRE_AUTH_VOTER_METADATA, PostsController.prototype.update)).toEqual([
+      { voterClass: RoleVoter, methodName: 'vote', attributes: ['editor', 'admin'] },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { VOTER_MODULE_OPTIONS } from '../constants/voter.constants';
+import { BaseVoter } from '../base/base-voter';
+import { VoterContext } from '../models/voter-context.interface';
+import { deny, VoteValue } from '../models/vote-result.enum';
+import { VoterModuleOptions } from '../models/voter-options.interface';
+
+interface PrincipalWithRoles {
+  role?: string;
+  roles?: string[];
+}
+
+@Injectable()
+export class RoleVoter extends BaseVoter {
+  constructor(@Optional() @Inject(VOTER_MODULE_OPTIONS) private readonly options?: VoterModuleOptions) {
+    super();
+  }
+
+  vote(context: VoterContext<any, any, any>): Promise<VoteValue> {
+    const required = (context.attributes ?? []) as string[];
+
+    if (required.length === 0) {
+      return Promise.resolve(deny('ROLE_REQUIRED', { roles: required }, 'No roles were given to RoleVoter'));
+    }
+
+    const roles = this.getReachableRoles(this.getRoles(context.auth));
+
+    return Promise.resolve(
+      required.some((role) => roles.has(role)) ||
+        deny('ROLE_REQUIRED', { roles: required }, `One of the roles ${required.join(', ')} is required`)
+    );
+  }
+
+  getReachableRoles(roles: string[]): Set<string> {
+    const hierarchy = this.options?.roleHierarchy ?? {};
+    const reachable = new Set<string>();
+    const pending = [...roles];
+
+    for (let role = pending.pop(); role !== undefined; role = pending.pop()) {
+      if (!reachable.has(role)) {
+        reachable.add(role);
+        pending.push(...(hierarchy[role] ?? []));
+      }
+    }
+
+    return reachable;
+  }
+
+  private getRoles(auth: unknown): string[] {
+    if (this.options?.roleExtractor) {
+      return this.options.roleExtractor(auth);
+    }
+
+    const principal = auth as PrincipalWithRoles | undefined;
+
+    return principal?.roles ?? (principal?.role ? [principal.role] : []);
+  }
+}